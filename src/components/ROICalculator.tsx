@@ -2,86 +2,125 @@ import React, { useState, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, TooltipProps } from 'recharts';
-import { ChevronRight, HelpCircle } from "lucide-react";
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-
-// Type for the calculator's state
-interface CalculatorState {
-  adminWaste: {
-    annualSalary: number | '';
-    hoursPerWeek: number | '';
-    numberOfMGOs: number | '';
-    impact: number;
-  };
-  siloedCollaboration: {
-    annualSalary: number | '';
-    hoursWasted: number | '';
-    numberOfUsers: number | '';
-    impact: number;
-  };
-  missedUpgrades: {
-    upgradableDonors: number | '';
-    averageGiftSize: number | '';
-    upgradePercentage: number | '';
-    realizationRate: number | '';
-    impact: number;
-  };
-  donorLapse: {
-    lapsedDonors: number | '';
-    averageGift: number | '';
-    numberOfPortfolios: number | '';
-    impact: number;
-  };
-}
-
-// Section descriptions for each tab
-const sectionDescriptions = {
-  adminWaste: "Calculate the cost of time spent on manual administrative tasks that could be automated.",
-  siloedCollaboration: "Measure the cost of inefficient collaboration across development teams.",
-  missedUpgrades: "Estimate potential revenue from upgrading existing donors to higher gift levels.",
-  donorLapse: "Quantify the cost of donor attrition that could be prevented with better management."
-};
-
-// Helper function to format currency
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-};
-
-// Helper function to format number with commas
-const formatNumber = (value: number | string): string => {
-  if (value === '') return '';
-  return new Intl.NumberFormat('en-US').format(Number(value));
-};
-
-// Helper function to parse formatted number input
-const parseFormattedNumber = (value: string): number | '' => {
-  if (value === '') return '';
-  // Remove all non-digit characters
-  const digitsOnly = value.replace(/[^\d]/g, '');
-  return digitsOnly === '' ? '' : Number(digitsOnly);
-};
+import { AlertTriangle, ChevronRight, Download, FileDown, Link2, Loader2, RotateCcw, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { TooltipProvider } from "@/components/ui/tooltip";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useCalculatorDraft } from "@/hooks/use-calculator-draft";
+import { useSavedScenarios } from "@/hooks/use-saved-scenarios";
+import { MoneyFormatContext, useMoneyFormat } from "@/hooks/use-money-format";
+import { LanguageContext } from "@/hooks/use-messages";
+import ProjectionPanel from "@/components/roi/ProjectionPanel";
+import InvestmentPanel from "@/components/roi/InvestmentPanel";
+import ScenarioComparison from "@/components/roi/ScenarioComparison";
+import SensitivityPanel from "@/components/roi/SensitivityPanel";
+import MonteCarloPanel from "@/components/roi/MonteCarloPanel";
+import AssumptionsPanel from "@/components/roi/AssumptionsPanel";
+import CurrencySelector from "@/components/roi/CurrencySelector";
+import SectionFields from "@/components/roi/SectionFields";
+import ResultRow from "@/components/roi/ResultRow";
+import LanguageSelector from "@/components/roi/LanguageSelector";
+import BenchmarkPicker from "@/components/roi/BenchmarkPicker";
+import GuidedWizard from "@/components/roi/GuidedWizard";
+import SectionStatusIcon from "@/components/roi/SectionStatusIcon";
+import LeadCaptureForm from "@/components/roi/LeadCaptureForm";
+import {
+  applyBenchmark,
+  areAllSectionsComplete,
+  buildShareUrl,
+  canCalculate,
+  computeImpacts,
+  computePartialImpacts,
+  createEmptyImpacts,
+  createEmptyInvestment,
+  DEFAULT_LANGUAGE,
+  DEFAULT_MONEY_FORMAT,
+  DEFAULT_PROJECTION_OPTIONS,
+  downloadReport,
+  downloadTextFile,
+  encodeInputs,
+  exportScenarioCsv,
+  exportScenarioJson,
+  createEmptyInputs,
+  createLeadSubmission,
+  formatCurrency,
+  formatMessage,
+  formatNumber,
+  getBenchmarkFields,
+  getMessages,
+  getReadySections,
+  getSectionStatus,
+  hasUnlockedResults,
+  hasValidationErrors,
+  IMPACT_CATEGORIES,
+  importScenarioFile,
+  isInvestmentComplete,
+  isSectionComplete as isInputSectionComplete,
+  markResultsUnlocked,
+  projectImpacts,
+  SCENARIO_FILE_BASENAME,
+  SECTION_CATEGORIES,
+  SECTION_COLORS,
+  SECTION_IDS,
+  resolveAssumptions,
+  setAssumption,
+  setFieldError,
+  setFieldValue,
+  summarizeInvestment,
+  validateInputs,
+  validateInvestment,
+  type AssumptionField,
+  type BenchmarkPreset,
+  type CalculatorInputs,
+  type FieldValue,
+  type ImpactBreakdown,
+  type InvestmentInputs,
+  type LeadCaptureAdapter,
+  type LeadDetails,
+  type Language,
+  type MoneyFormat,
+  type ProjectionOptions,
+  type SavedScenario,
+  type SectionId,
+  type ValidationErrors,
+} from "@/lib/roi";
 
-// Animated counter component with gradual slowdown
+// Animated counter component with gradual slowdown. It counts on from the figure already shown,
+// so live updates nudge the total rather than restarting it from zero.
 const AnimatedCounter: React.FC<{ value: number; duration?: number }> = ({ value, duration = 1000 }) => {
   const [count, setCount] = useState(0);
+  const countRef = React.useRef(0);
   
   React.useEffect(() => {
-    if (value === 0) {
-      setCount(0);
-      return;
-    }
+    const from = countRef.current;
+    if (from === value) return;
     
     let startTime: number | null = null;
     let animationFrame: number;
     
+    const show = (next: number) => {
+      countRef.current = next;
+      setCount(next);
+    };
+    
     // Easing function to create slowdown effect
     const easeOutQuart = (t: number) => 1 - Math.pow(1 - t, 4);
     
@@ -92,10 +131,10 @@ const AnimatedCounter: React.FC<{ value: number; duration?: number }> = ({ value
       if (progress < 1) {
         // Use easing to slow down as it approaches the target
         const easedProgress = easeOutQuart(progress);
-        setCount(Math.floor(easedProgress * value));
+        show(Math.floor(from + easedProgress * (value - from)));
         animationFrame = requestAnimationFrame(animateValue);
       } else {
-        setCount(value);
+        show(value);
       }
     };
     
@@ -105,12 +144,14 @@ const AnimatedCounter: React.FC<{ value: number; duration?: number }> = ({ value
       cancelAnimationFrame(animationFrame);
     };
   }, [value, duration]);
-  
+
+  const { formatCurrency } = useMoneyFormat();
   return <span className="animate-count-up">{formatCurrency(count)}</span>;
 };
 
 // Custom tooltip for the pie chart
 const CustomTooltip: React.FC<TooltipProps<number, string>> = ({ active, payload }) => {
+  const { formatCurrency } = useMoneyFormat();
   if (active && payload && payload.length) {
     return (
       <div className="bg-white p-1 border border-gray-200 rounded shadow-sm text-xs" style={{ maxWidth: '100px' }}>
@@ -122,151 +163,139 @@ const CustomTooltip: React.FC<TooltipProps<number, string>> = ({ active, payload
   return null;
 };
 
-// Field definitions for tooltips
-const fieldDefinitions = {
-  adminWaste: {
-    annualSalary: "The average annual salary of a fundraiser in your organization.",
-    hoursPerWeek: "The number of hours per week spent on data entry.",
-    numberOfMGOs: "The total number of fundraisers in your organization who would benefit from reduced admin work."
-  },
-  siloedCollaboration: {
-    annualSalary: "The average annual salary of team members involved in collaborative fundraising efforts.",
-    hoursWasted: "Hours wasted per week due to siloed information and lack of collaborative tools.",
-    numberOfUsers: "Number of team members affected by collaboration inefficiencies."
-  },
-  missedUpgrades: {
-    upgradableDonors: "The number of donors in your database who have the potential for upgrading their gift level.",
-    averageGiftSize: "The average donation amount from your typical donor.",
-    upgradePercentage: "The percentage of donors you feel you will successfully upgrade.",
-    realizationRate: "The percent of extra giving potential from donors that you expect to actually raise."
-  },
-  donorLapse: {
-    lapsedDonors: "The average number of donors who stop giving or become inactive each year in a portfolio.",
-    averageGift: "The average gift amount from these at-risk donors.",
-    numberOfPortfolios: "The number of donor portfolios in your organization."
-  }
-};
+interface ROICalculatorProps {
+  // Inputs to start from, e.g. a scenario restored from a shared link
+  initialInputs?: CalculatorInputs | null;
+  // Currency and locale to start with, e.g. from an embed's URL
+  initialMoneyFormat?: MoneyFormat;
+  // Language for the calculator copy, e.g. from an embed's URL
+  initialLanguage?: Language;
+  // When set, the breakdown, report and follow-on panels stay hidden until the visitor submits the lead form
+  leadCaptureAdapter?: LeadCaptureAdapter | null;
+}
 
-// Label with tooltip component
-const LabelWithTooltip = ({ htmlFor, tooltipText, children }: { htmlFor: string; tooltipText: string; children: React.ReactNode }) => {
-  return (
-    <div className="flex items-center gap-1">
-      <Label htmlFor={htmlFor}>{children}</Label>
-      <Tooltip delayDuration={0}>
-        <TooltipTrigger asChild>
-          <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
-        </TooltipTrigger>
-        <TooltipContent className="max-w-xs" side="right">
-          <p className="text-xs">{tooltipText}</p>
-        </TooltipContent>
-      </Tooltip>
-    </div>
+const ROICalculator: React.FC<ROICalculatorProps> = ({
+  initialInputs,
+  initialMoneyFormat = DEFAULT_MONEY_FORMAT,
+  initialLanguage = DEFAULT_LANGUAGE,
+  leadCaptureAdapter = null,
+}) => {
+  // A fully filled, valid shared scenario opens straight onto its results
+  const startsComplete = !!initialInputs && canCalculate(initialInputs);
+
+  const [activeTab, setActiveTab] = useState<string>(
+    () => (initialInputs && SECTION_IDS.find((id) => !isInputSectionComplete(initialInputs, id))) || SECTION_IDS[0]
   );
-};
+  const [calculatedResults, setCalculatedResults] = useState(startsComplete);
+  const [showResults, setShowResults] = useState(startsComplete);
+  const [calculatorState, setCalculatorState] = useState<CalculatorInputs>(() => initialInputs ?? createEmptyInputs());
+  // Bumped when every input is replaced at once, so the fields drop text the user was still typing
+  const [inputsKey, setInputsKey] = useState(0);
+  // Snapshot of the inputs the results were last calculated from
+  const [calculatedInputs, setCalculatedInputs] = useState<CalculatorInputs | null>(
+    () => (startsComplete ? initialInputs : null)
+  );
+  // Step-by-step mode asks one question at a time instead of showing the tabbed sections
+  const [wizardMode, setWizardMode] = useState(false);
 
-const ROICalculator: React.FC = () => {
-  const [activeTab, setActiveTab] = useState("adminWaste");
-  const [calculatedResults, setCalculatedResults] = useState(false);
-  const [showResults, setShowResults] = useState(false);
-  const [calculatorState, setCalculatorState] = useState<CalculatorState>({
-    adminWaste: {
-      annualSalary: '',
-      hoursPerWeek: '',
-      numberOfMGOs: '',
-      impact: 0,
-    },
-    siloedCollaboration: {
-      annualSalary: '',
-      hoursWasted: '',
-      numberOfUsers: '',
-      impact: 0,
-    },
-    missedUpgrades: {
-      upgradableDonors: '',
-      averageGiftSize: '',
-      upgradePercentage: '',
-      realizationRate: '',
-      impact: 0,
-    },
-    donorLapse: {
-      lapsedDonors: '',
-      averageGift: '',
-      numberOfPortfolios: '',
-      impact: 0,
-    },
-  });
-
-  // Calculate the total impact
-  const totalImpact = React.useMemo(() => {
-    return (
-      calculatorState.adminWaste.impact +
-      calculatorState.siloedCollaboration.impact +
-      calculatorState.missedUpgrades.impact +
-      calculatorState.donorLapse.impact
-    );
-  }, [calculatorState]);
+  // Live mode counts each section as soon as it is filled in validly, instead of waiting for Calculate
+  const [liveMode, setLiveMode] = useState(false);
+  const readySections = React.useMemo(() => getReadySections(calculatorState), [calculatorState]);
+  const isPartial = liveMode && readySections.length < SECTION_IDS.length;
+  // Inputs the results panel shows, and the fully calculated ones behind the panels, exports and report
+  const resultInputs = liveMode ? calculatorState : calculatedInputs;
+  const completeInputs = liveMode ? (isPartial ? null : calculatorState) : calculatedInputs;
+  const resultsVisible = liveMode ? readySections.length > 0 : showResults;
+  // Classic results that no longer match the inputs on screen
+  const isStale = !liveMode && !!calculatedInputs && encodeInputs(calculatorState) !== encodeInputs(calculatedInputs);
+
+  const impacts = React.useMemo<ImpactBreakdown>(() => {
+    if (liveMode) return computePartialImpacts(calculatorState, readySections);
+    return calculatedInputs ? computeImpacts(calculatedInputs) : createEmptyImpacts();
+  }, [liveMode, calculatorState, readySections, calculatedInputs]);
+
+  const [moneyFormat, setMoneyFormat] = useState<MoneyFormat>(initialMoneyFormat);
+  const formatMoney = (value: number) => formatCurrency(value, moneyFormat);
+
+  const [language, setLanguage] = useState<Language>(initialLanguage);
+  const messages = getMessages(language);
 
-  // Calculate totals for the two categories
-  const wastedAnnualSalarySpend = React.useMemo(() => {
-    return calculatorState.adminWaste.impact + calculatorState.siloedCollaboration.impact;
-  }, [calculatorState.adminWaste.impact, calculatorState.siloedCollaboration.impact]);
+  const [leadCaptured, setLeadCaptured] = useState(hasUnlockedResults);
+  const isGated = !!leadCaptureAdapter && !leadCaptured;
 
-  const opportunityCost = React.useMemo(() => {
-    return calculatorState.missedUpgrades.impact + calculatorState.donorLapse.impact;
-  }, [calculatorState.missedUpgrades.impact, calculatorState.donorLapse.impact]);
+  // Benchmark preset last filled in, so its values can be told apart from the user's own
+  const [benchmark, setBenchmark] = useState<BenchmarkPreset | null>(null);
+
+  const [projectionOptions, setProjectionOptions] = useState<ProjectionOptions>(DEFAULT_PROJECTION_OPTIONS);
+  const [investment, setInvestment] = useState<InvestmentInputs>(createEmptyInvestment);
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
+  const { scenarios, addScenario, removeScenario } = useSavedScenarios();
+
+  // Persist progress so users can leave to look up numbers and pick up where they left off
+  const { pendingDraft, dismissDraft, discardDraft, clearDraft } = useCalculatorDraft(
+    calculatorState,
+    activeTab as SectionId,
+    { skipRestore: !!initialInputs }
+  );
+
+  const totalImpact = impacts.total;
+
+  // Working year the results were calculated with, which also bounds training time
+  const resultAssumptions = React.useMemo(
+    () => (completeInputs ? resolveAssumptions(completeInputs.assumptions) : null),
+    [completeInputs]
+  );
+
+  // Net return once the investment section is filled in with valid values
+  const investmentSummary = React.useMemo(() => {
+    if (!completeInputs || !resultAssumptions || !isInvestmentComplete(investment)) return null;
+    if (Object.keys(validateInvestment(investment, resultAssumptions, messages)).length > 0) return null;
+    return summarizeInvestment(totalImpact, investment, completeInputs, moneyFormat.currency);
+  }, [completeInputs, resultAssumptions, investment, totalImpact, messages, moneyFormat.currency]);
 
   // Chart data
   const chartData = React.useMemo(() => {
-    return [
-      {
-        name: 'Manual Admin Waste',
-        value: calculatorState.adminWaste.impact,
-        color: '#6A1B9A', // Deep purple
-        category: 'Wasted Annual Salary Spend'
-      },
-      {
-        name: 'Siloed Collaboration',
-        value: calculatorState.siloedCollaboration.impact,
-        color: '#8E24AA', // Medium purple
-        category: 'Wasted Annual Salary Spend'
-      },
-      {
-        name: 'Missed Upgrades',
-        value: calculatorState.missedUpgrades.impact,
-        color: '#AB47BC', // Light purple
-        category: 'Opportunity Cost'
-      },
-      {
-        name: 'Donor Lapse',
-        value: calculatorState.donorLapse.impact,
-        color: '#42F2F7', // Aqua
-        category: 'Opportunity Cost'
-      }
-    ].filter(item => item.value > 0);
-  }, [calculatorState]);
+    return SECTION_IDS.map((id) => ({
+      id,
+      name: messages.sections[id].result,
+      value: impacts.sections[id],
+      color: SECTION_COLORS[id],
+      category: SECTION_CATEGORIES[id],
+    })).filter(item => item.value > 0);
+  }, [impacts, messages]);
 
   // Check if a section is complete
-  const isSectionComplete = (section: keyof CalculatorState): boolean => {
-    const sectionData = calculatorState[section];
-    return Object.entries(sectionData)
-      .filter(([key]) => key !== 'impact') // Exclude the impact field
-      .every(([_, value]) => value !== '');
+  const isSectionComplete = (section: SectionId): boolean => {
+    return isInputSectionComplete(calculatorState, section);
   };
 
   // Check if all sections are completed
   const allSectionsCompleted = React.useMemo(() => {
-    return (
-      isSectionComplete('adminWaste') &&
-      isSectionComplete('siloedCollaboration') &&
-      isSectionComplete('missedUpgrades') &&
-      isSectionComplete('donorLapse')
-    );
+    return areAllSectionsComplete(calculatorState);
   }, [calculatorState]);
 
+  // Validation errors for the current inputs
+  const validationErrors = React.useMemo(() => validateInputs(calculatorState, messages), [calculatorState, messages]);
+  const isValid = !hasValidationErrors(validationErrors);
+
+  // Text typed into a field that couldn't be read as a number; the field's value stays empty meanwhile
+  const [inputErrors, setInputErrors] = useState<ValidationErrors>({});
+
+  // Progress cue for each tab, and how many sections are done
+  const sectionStatuses = React.useMemo(
+    () =>
+      Object.fromEntries(
+        SECTION_IDS.map((id) => [id, getSectionStatus(calculatorState, id, validationErrors, inputErrors)])
+      ),
+    [calculatorState, validationErrors, inputErrors]
+  );
+  const completedSectionCount = SECTION_IDS.filter((id) => sectionStatuses[id] === 'complete').length;
+
   // Find the next incomplete section
   const findNextIncompleteSection = (): string => {
-    const sections: (keyof CalculatorState)[] = ['adminWaste', 'siloedCollaboration', 'missedUpgrades', 'donorLapse'];
-    const currentIndex = sections.indexOf(activeTab as keyof CalculatorState);
+    const sections = SECTION_IDS;
+    const currentIndex = sections.indexOf(activeTab as SectionId);
     
     // First check after the current tab
     for (let i = currentIndex + 1; i < sections.length; i++) {
@@ -287,73 +316,154 @@ const ROICalculator: React.FC = () => {
   };
 
   const handleInputChange = (
-    section: keyof CalculatorState,
+    section: SectionId,
     field: string,
-    value: string
+    value: FieldValue
   ) => {
-    const numValue = parseFormattedNumber(value);
-    
-    setCalculatorState((prev) => ({
-      ...prev,
-      [section]: {
-        ...prev[section],
-        [field]: numValue,
-      },
-    }));
+    setCalculatorState((prev) => setFieldValue(prev, section, field, value));
+  };
+
+  const handleInputError = (section: SectionId, field: string, error: string | null) => {
+    setInputErrors((prev) => setFieldError(prev, section, field, error));
+  };
+
+  const handleAssumptionChange = (field: AssumptionField, value: FieldValue) => {
+    setCalculatorState((prev) => setAssumption(prev, field, value));
   };
 
   const calculateImpact = () => {
-    // Calculate Manual Admin Waste Impact
-    const adminWasteImpact = 
-      (Number(calculatorState.adminWaste.annualSalary) / 2080) * 
-      Number(calculatorState.adminWaste.hoursPerWeek) * 
-      52 * 
-      Number(calculatorState.adminWaste.numberOfMGOs);
-    
-    // Calculate Siloed Collaboration Impact
-    const siloedCollaborationImpact = 
-      (Number(calculatorState.siloedCollaboration.annualSalary) / 2080) * 
-      Number(calculatorState.siloedCollaboration.hoursWasted) * 
-      52 * 
-      Number(calculatorState.siloedCollaboration.numberOfUsers);
-    
-    // Calculate Missed Upgrades Impact
-    const missedUpgradesImpact = 
-      Number(calculatorState.missedUpgrades.upgradableDonors) * 
-      Number(calculatorState.missedUpgrades.averageGiftSize) * 
-      (Number(calculatorState.missedUpgrades.upgradePercentage) / 100) * 
-      (Number(calculatorState.missedUpgrades.realizationRate) / 100);
-    
-    // Calculate Donor Lapse Impact
-    const lostDonorValue = Number(calculatorState.donorLapse.lapsedDonors) * 
-      Number(calculatorState.donorLapse.averageGift);
-    
-    const donorLapseImpact = lostDonorValue * Number(calculatorState.donorLapse.numberOfPortfolios);
-    
-    setCalculatorState((prev) => ({
-      ...prev,
-      adminWaste: {
-        ...prev.adminWaste,
-        impact: Math.round(adminWasteImpact),
-      },
-      siloedCollaboration: {
-        ...prev.siloedCollaboration,
-        impact: Math.round(siloedCollaborationImpact),
-      },
-      missedUpgrades: {
-        ...prev.missedUpgrades,
-        impact: Math.round(missedUpgradesImpact),
-      },
-      donorLapse: {
-        ...prev.donorLapse,
-        impact: Math.round(donorLapseImpact),
-      },
-    }));
+    if (!isValid) return;
+    setCalculatedInputs(calculatorState);
     
     setCalculatedResults(true);
     setShowResults(true);
   };
 
+  // Fill every field the user hasn't entered themselves with the preset's values
+  const handleApplyBenchmark = (preset: BenchmarkPreset) => {
+    setCalculatorState((prev) => applyBenchmark(prev, preset, benchmark));
+    setBenchmark(preset);
+  };
+
+  // Hand the visitor's details to the adapter and reveal everything once it accepts them
+  const handleLeadSubmit = async (lead: LeadDetails) => {
+    if (!leadCaptureAdapter) return;
+    try {
+      await leadCaptureAdapter.submit(createLeadSubmission(lead, impacts, moneyFormat));
+      markResultsUnlocked();
+      setLeadCaptured(true);
+    } catch {
+      toast.error(messages.leads.failed);
+    }
+  };
+
+  // Leaving live mode keeps the results on screen if everything is filled in
+  const handleLiveModeChange = (enabled: boolean) => {
+    setLiveMode(enabled);
+    if (enabled) return;
+    const ready = canCalculate(calculatorState);
+    setCalculatedInputs(ready ? calculatorState : null);
+    setCalculatedResults(ready);
+    setShowResults(ready);
+  };
+
+  // Copy a link that reopens the calculator with the current inputs
+  const handleCopyShareLink = async () => {
+    const shareUrl = buildShareUrl(window.location.href, calculatorState, moneyFormat, language);
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      toast.success(messages.calculator.linkCopied);
+    } catch {
+      toast.error(messages.calculator.linkCopyFailed, { description: shareUrl });
+    }
+  };
+
+  // Build the PDF report from the calculated results
+  const handleDownloadReport = async () => {
+    if (!completeInputs) return;
+    setIsGeneratingReport(true);
+    try {
+      await downloadReport({
+        inputs: completeInputs,
+        investment: investmentSummary ? investment : null,
+        investmentSummary,
+        projection: projectionOptions.years > 1 ? projectImpacts(completeInputs, projectionOptions) : null,
+        format: moneyFormat,
+        messages,
+      });
+    } catch {
+      toast.error(messages.calculator.reportFailed);
+    } finally {
+      setIsGeneratingReport(false);
+    }
+  };
+
+  // Replace every input at once, going straight to results when they are complete and valid
+  const applyInputs = (inputs: CalculatorInputs) => {
+    const ready = canCalculate(inputs);
+    setCalculatorState(inputs);
+    setInputsKey((key) => key + 1);
+    setBenchmark(null);
+    setActiveTab(SECTION_IDS.find((id) => !isInputSectionComplete(inputs, id)) ?? SECTION_IDS[0]);
+    setCalculatedInputs(ready ? inputs : null);
+    setCalculatedResults(ready);
+    setShowResults(ready);
+  };
+
+  // Download the calculated scenario for archiving
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!completeInputs) return;
+    if (format === 'csv') {
+      downloadTextFile(exportScenarioCsv(completeInputs, moneyFormat), `${SCENARIO_FILE_BASENAME}.csv`, 'text/csv');
+    } else {
+      downloadTextFile(exportScenarioJson(completeInputs, moneyFormat), `${SCENARIO_FILE_BASENAME}.json`, 'application/json');
+    }
+  };
+
+  // Repopulate every tab from a previously exported scenario
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { inputs, format, error } = importScenarioFile(file.name, await file.text(), messages);
+    if (error) {
+      toast.error(messages.calculator.importFailed, { description: error });
+      return;
+    }
+
+    applyInputs(inputs);
+    if (format) setMoneyFormat(format);
+    toast.success(formatMessage(messages.calculator.imported, { name: file.name }));
+  };
+
+  const handleLoadScenario = (scenario: SavedScenario) => {
+    applyInputs(scenario.inputs);
+    setMoneyFormat(scenario.format);
+    toast.success(formatMessage(messages.calculator.loaded, { name: scenario.name }));
+  };
+
+  // Restore the saved session offered on load
+  const handleResumeDraft = () => {
+    if (!pendingDraft) return;
+    setCalculatorState(pendingDraft.inputs);
+    setInputsKey((key) => key + 1);
+    setActiveTab(pendingDraft.activeTab);
+    dismissDraft();
+  };
+
+  // Clear every input and the saved session
+  const handleStartOver = () => {
+    setCalculatorState(createEmptyInputs());
+    setInputsKey((key) => key + 1);
+    setBenchmark(null);
+    setCalculatedInputs(null);
+    setCalculatedResults(false);
+    setShowResults(false);
+    setActiveTab(SECTION_IDS[0]);
+    clearDraft();
+  };
+
   // Handle Next button click
   const handleNextClick = () => {
     const nextSection = findNextIncompleteSection();
@@ -385,7 +495,7 @@ const ROICalculator: React.FC = () => {
   }, []);
 
   // Animation classes - adjusted for mobile
-  const resultsAnimationClass = showResults
+  const resultsAnimationClass = resultsVisible
     ? isMobile 
       ? "w-full mt-6 transition-all duration-500 ease-in-out"
       : "w-2/5 transition-all duration-500 ease-in-out" 
@@ -394,476 +504,428 @@ const ROICalculator: React.FC = () => {
   // Animation class for calculator section - adjusted for mobile
   const calculatorAnimationClass = isMobile 
     ? "w-full transition-all duration-500 ease-in-out"
-    : showResults
+    : resultsVisible
       ? "w-3/5 transition-all duration-500 ease-in-out"
       : "w-full transition-all duration-500 ease-in-out";
 
   return (
-    <div className="max-w-[1000px] mx-auto bg-instil-dark rounded-lg shadow-lg p-3 md:p-6 flex flex-col max-h-full md:max-h-[600px] overflow-auto">
+    <LanguageContext.Provider value={language}>
+      <MoneyFormatContext.Provider value={moneyFormat}>
+        <div lang={language} className="max-w-[1000px] mx-auto bg-instil-dark rounded-lg shadow-lg p-3 md:p-6 flex flex-col max-h-full md:max-h-[600px] overflow-auto">
       
-      <div className={`flex flex-col md:flex-row flex-1 ${isMobile ? 'gap-4' : 'gap-6'}`}>
-        <div className={`${calculatorAnimationClass} bg-gray-50 rounded-lg p-3 md:p-4 shadow-sm`}>
-          <TooltipProvider>
-            <Tabs 
-              value={activeTab} 
-              onValueChange={(value) => setActiveTab(value)}
-              className="w-full"
-            >
-              {/* Mobile tabs with proper background */}
-              {isMobile ? (
-                <div className="w-full bg-instil-lightpurple rounded-md p-1 mb-6">
-                  {/* Fixed TabsList structure for mobile */}
-                  <TabsList className="grid grid-cols-2 w-full mb-1 bg-instil-lightpurple h-auto">
-                    <TabsTrigger 
-                      value="adminWaste" 
-                      className="text-xs px-1 py-2 text-instil-purple data-[state=active]:bg-instil-purple data-[state=active]:text-white whitespace-normal h-auto"
-                    >
-                      Admin Waste
-                    </TabsTrigger>
-                    <TabsTrigger 
-                      value="siloedCollaboration" 
-                      className="text-xs px-1 py-2 text-instil-purple data-[state=active]:bg-instil-purple data-[state=active]:text-white whitespace-normal h-auto"
-                    >
-                      Isolated Teamwork
-                    </TabsTrigger>
-                  </TabsList>
-                  <TabsList className="grid grid-cols-2 w-full bg-instil-lightpurple h-auto">
-                    <TabsTrigger 
-                      value="missedUpgrades" 
-                      className="text-xs px-1 py-2 text-instil-purple data-[state=active]:bg-instil-purple data-[state=active]:text-white whitespace-normal h-auto"
-                    >
-                      Missed Upgrades
-                    </TabsTrigger>
-                    <TabsTrigger 
-                      value="donorLapse" 
-                      className="text-xs px-1 py-2 text-instil-purple data-[state=active]:bg-instil-purple data-[state=active]:text-white whitespace-normal h-auto"
-                    >
-                      Donor Lapse
-                    </TabsTrigger>
-                  </TabsList>
+          <div className={`flex flex-col md:flex-row flex-1 ${isMobile ? 'gap-4' : 'gap-6'}`}>
+            <div className={`${calculatorAnimationClass} bg-gray-50 rounded-lg p-3 md:p-4 shadow-sm`}>
+              <div className="flex flex-wrap items-center justify-end gap-2 mb-3">
+                <div className="flex flex-wrap items-center gap-4 mr-auto">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="wizard-mode"
+                      checked={wizardMode}
+                      onCheckedChange={setWizardMode}
+                      className="data-[state=checked]:bg-instil-purple"
+                    />
+                    <Label htmlFor="wizard-mode" className="text-xs text-gray-600">{messages.wizard.toggle}</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="live-mode"
+                      checked={liveMode}
+                      onCheckedChange={handleLiveModeChange}
+                      className="data-[state=checked]:bg-instil-purple"
+                    />
+                    <Label htmlFor="live-mode" className="text-xs text-gray-600">{messages.calculator.liveMode}</Label>
+                  </div>
                 </div>
+                <LanguageSelector language={language} onLanguageChange={setLanguage} />
+                <CurrencySelector format={moneyFormat} onFormatChange={setMoneyFormat} />
+              </div>
+              {/* Remounts when the preset is cleared so the pickers reset too */}
+              <BenchmarkPicker key={benchmark ? 'applied' : 'none'} preset={benchmark} onApply={handleApplyBenchmark} />
+              {wizardMode ? (
+                <GuidedWizard
+                  key={inputsKey}
+                  inputs={calculatorState}
+                  onFieldChange={handleInputChange}
+                  errors={validationErrors}
+                  onCalculate={liveMode ? undefined : calculateImpact}
+                  canCalculate={allSectionsCompleted && isValid}
+                />
               ) : (
-                <TabsList className="grid grid-cols-4 mb-4 bg-instil-lightpurple">
-                  <TabsTrigger 
-                    value="adminWaste" 
-                    className="text-instil-purple data-[state=active]:bg-instil-purple data-[state=active]:text-white whitespace-normal h-auto min-h-[40px]"
-                  >
-                    Admin Waste
-                  </TabsTrigger>
-                  <TabsTrigger 
-                    value="siloedCollaboration" 
-                    className="text-instil-purple data-[state=active]:bg-instil-purple data-[state=active]:text-white whitespace-normal h-auto min-h-[40px]"
-                  >
-                    Isolated Teamwork
-                  </TabsTrigger>
-                  <TabsTrigger 
-                    value="missedUpgrades" 
-                    className="text-instil-purple data-[state=active]:bg-instil-purple data-[state=active]:text-white whitespace-normal h-auto min-h-[40px]"
+                <TooltipProvider key={inputsKey}>
+                  <Tabs 
+                    value={activeTab} 
+                    onValueChange={(value) => setActiveTab(value)}
+                    className="w-full"
                   >
-                    Missed Upgrades
-                  </TabsTrigger>
-                  <TabsTrigger 
-                    value="donorLapse" 
-                    className="text-instil-purple data-[state=active]:bg-instil-purple data-[state=active]:text-white whitespace-normal h-auto min-h-[40px]"
-                  >
-                    Donor Lapse
-                  </TabsTrigger>
-                </TabsList>
-              )}
-              
-              {/* Section description - shows only for active tab */}
-              <div className="mb-4 text-sm text-gray-600 italic px-1">
-                {sectionDescriptions[activeTab as keyof typeof sectionDescriptions]}
-              </div>
-              
-              <div className="pt-2">
-                <TabsContent value="adminWaste" className="mt-0">
-                  <Card>
-                    <CardContent className="pt-6 space-y-4">
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="numberOfMGOs" 
-                          tooltipText={fieldDefinitions.adminWaste.numberOfMGOs}
-                        >
-                          # of Fundraisers
-                        </LabelWithTooltip>
-                        <Input 
-                          id="numberOfMGOs"
-                          type="text" 
-                          placeholder="4"
-                          value={calculatorState.adminWaste.numberOfMGOs === '' ? '' : formatNumber(calculatorState.adminWaste.numberOfMGOs)}
-                          onChange={(e) => handleInputChange('adminWaste', 'numberOfMGOs', e.target.value)}
-                        />
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="annualSalary" 
-                          tooltipText={fieldDefinitions.adminWaste.annualSalary}
-                        >
-                          Annual Salary
-                        </LabelWithTooltip>
-                        <div className="relative">
-                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
-                          <Input 
-                            id="annualSalary"
-                            type="text" 
-                            className="pl-8"
-                            placeholder="125,000"
-                            value={calculatorState.adminWaste.annualSalary === '' ? '' : formatNumber(calculatorState.adminWaste.annualSalary)}
-                            onChange={(e) => handleInputChange('adminWaste', 'annualSalary', e.target.value)}
-                          />
-                        </div>
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="hoursPerWeek" 
-                          tooltipText={fieldDefinitions.adminWaste.hoursPerWeek}
-                        >
-                          Hours Spent on Data Entry
-                        </LabelWithTooltip>
-                        <Input 
-                          id="hoursPerWeek"
-                          type="text" 
-                          placeholder="15"
-                          value={calculatorState.adminWaste.hoursPerWeek === '' ? '' : formatNumber(calculatorState.adminWaste.hoursPerWeek)}
-                          onChange={(e) => handleInputChange('adminWaste', 'hoursPerWeek', e.target.value)}
-                        />
-                      </div>
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-                
-                <TabsContent value="siloedCollaboration" className="mt-0">
-                  <Card>
-                    <CardContent className="pt-6 space-y-4">
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="scAnnualSalary" 
-                          tooltipText={fieldDefinitions.siloedCollaboration.annualSalary}
-                        >
-                          Annual Salary
-                        </LabelWithTooltip>
-                        <div className="relative">
-                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
-                          <Input 
-                            id="scAnnualSalary"
-                            type="text" 
-                            className="pl-8"
-                            placeholder="75,000"
-                            value={calculatorState.siloedCollaboration.annualSalary === '' ? '' : formatNumber(calculatorState.siloedCollaboration.annualSalary)}
-                            onChange={(e) => handleInputChange('siloedCollaboration', 'annualSalary', e.target.value)}
-                          />
-                        </div>
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="hoursWasted" 
-                          tooltipText={fieldDefinitions.siloedCollaboration.hoursWasted}
-                        >
-                          Hours Wasted Per Week
-                        </LabelWithTooltip>
-                        <Input 
-                          id="hoursWasted"
-                          type="text" 
-                          placeholder="5"
-                          value={calculatorState.siloedCollaboration.hoursWasted === '' ? '' : formatNumber(calculatorState.siloedCollaboration.hoursWasted)}
-                          onChange={(e) => handleInputChange('siloedCollaboration', 'hoursWasted', e.target.value)}
-                        />
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="numberOfUsers" 
-                          tooltipText={fieldDefinitions.siloedCollaboration.numberOfUsers}
-                        >
-                          Number of Users
-                        </LabelWithTooltip>
-                        <Input 
-                          id="numberOfUsers"
-                          type="text" 
-                          placeholder="2"
-                          value={calculatorState.siloedCollaboration.numberOfUsers === '' ? '' : formatNumber(calculatorState.siloedCollaboration.numberOfUsers)}
-                          onChange={(e) => handleInputChange('siloedCollaboration', 'numberOfUsers', e.target.value)}
-                        />
-                      </div>
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-                
-                <TabsContent value="missedUpgrades" className="mt-0">
-                  <Card>
-                    <CardContent className="pt-6 space-y-4">
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="upgradableDonors" 
-                          tooltipText={fieldDefinitions.missedUpgrades.upgradableDonors}
-                        >
-                          # of Donors with Potential to Upgrade
-                        </LabelWithTooltip>
-                        <Input 
-                          id="upgradableDonors"
-                          type="text" 
-                          placeholder="65"
-                          value={calculatorState.missedUpgrades.upgradableDonors === '' ? '' : formatNumber(calculatorState.missedUpgrades.upgradableDonors)}
-                          onChange={(e) => handleInputChange('missedUpgrades', 'upgradableDonors', e.target.value)}
-                        />
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="averageGiftSize" 
-                          tooltipText={fieldDefinitions.missedUpgrades.averageGiftSize}
-                        >
-                          Average Gift Size
-                        </LabelWithTooltip>
-                        <div className="relative">
-                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
-                          <Input 
-                            id="averageGiftSize"
-                            type="text" 
-                            className="pl-8"
-                            placeholder="10,000"
-                            value={calculatorState.missedUpgrades.averageGiftSize === '' ? '' : formatNumber(calculatorState.missedUpgrades.averageGiftSize)}
-                            onChange={(e) => handleInputChange('missedUpgrades', 'averageGiftSize', e.target.value)}
-                          />
-                        </div>
+                    <p className="mb-2 text-xs text-gray-500 text-right">
+                      {formatMessage(messages.sectionStatus.summary, {
+                        count: completedSectionCount,
+                        total: SECTION_IDS.length,
+                      })}
+                    </p>
+
+                    {/* Mobile tabs with proper background */}
+                    {isMobile ? (
+                      <div className="w-full bg-instil-lightpurple rounded-md p-1 mb-6">
+                        <TabsList className="grid grid-cols-2 gap-1 w-full bg-instil-lightpurple h-auto">
+                          {SECTION_IDS.map((id) => (
+                            <TabsTrigger
+                              key={id}
+                              value={id}
+                              className="text-xs px-1 py-2 text-instil-purple data-[state=active]:bg-instil-purple data-[state=active]:text-white whitespace-normal h-auto"
+                            >
+                              <span className="inline-flex items-center gap-1">
+                                <SectionStatusIcon status={sectionStatuses[id]} />
+                                {messages.sections[id].tab}
+                              </span>
+                            </TabsTrigger>
+                          ))}
+                        </TabsList>
                       </div>
-                      
-                      <div className="grid grid-cols-2 gap-4">
-                        <div className="space-y-2">
-                          <LabelWithTooltip 
-                            htmlFor="upgradePercentage" 
-                            tooltipText={fieldDefinitions.missedUpgrades.upgradePercentage}
+                    ) : (
+                      <TabsList className="flex flex-wrap w-full mb-4 bg-instil-lightpurple h-auto">
+                        {SECTION_IDS.map((id) => (
+                          <TabsTrigger
+                            key={id}
+                            value={id}
+                            className="flex-1 text-instil-purple data-[state=active]:bg-instil-purple data-[state=active]:text-white whitespace-normal h-auto min-h-[40px]"
                           >
-                            Upgrade %
-                          </LabelWithTooltip>
-                          <div className="relative">
-                            <Input 
-                              id="upgradePercentage"
-                              type="text" 
-                              placeholder="50"
-                              value={calculatorState.missedUpgrades.upgradePercentage === '' ? '' : formatNumber(calculatorState.missedUpgrades.upgradePercentage)}
-                              onChange={(e) => handleInputChange('missedUpgrades', 'upgradePercentage', e.target.value)}
-                            />
-                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500">%</span>
-                          </div>
-                        </div>
-                        
-                        <div className="space-y-2">
-                          <LabelWithTooltip 
-                            htmlFor="realizationRate" 
-                            tooltipText={fieldDefinitions.missedUpgrades.realizationRate}
-                          >
-                            Realization Rate
-                          </LabelWithTooltip>
-                          <div className="relative">
-                            <Input 
-                              id="realizationRate"
-                              type="text" 
-                              placeholder="50"
-                              value={calculatorState.missedUpgrades.realizationRate === '' ? '' : formatNumber(calculatorState.missedUpgrades.realizationRate)}
-                              onChange={(e) => handleInputChange('missedUpgrades', 'realizationRate', e.target.value)}
-                            />
-                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500">%</span>
-                          </div>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </TabsContent>
+                            <span className="inline-flex items-center gap-1.5">
+                              <SectionStatusIcon status={sectionStatuses[id]} />
+                              {messages.sections[id].tab}
+                            </span>
+                          </TabsTrigger>
+                        ))}
+                      </TabsList>
+                    )}
                 
-                <TabsContent value="donorLapse" className="mt-0">
-                  <Card>
-                    <CardContent className="pt-6 space-y-4">
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="lapsedDonors" 
-                          tooltipText={fieldDefinitions.donorLapse.lapsedDonors}
-                        >
-                          Number of Lapsed Donors
-                        </LabelWithTooltip>
-                        <Input 
-                          id="lapsedDonors"
-                          type="text" 
-                          placeholder="15"
-                          value={calculatorState.donorLapse.lapsedDonors === '' ? '' : formatNumber(calculatorState.donorLapse.lapsedDonors)}
-                          onChange={(e) => handleInputChange('donorLapse', 'lapsedDonors', e.target.value)}
-                        />
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="donorAverageGift" 
-                          tooltipText={fieldDefinitions.donorLapse.averageGift}
-                        >
-                          Average Gift
-                        </LabelWithTooltip>
-                        <div className="relative">
-                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
-                          <Input 
-                            id="donorAverageGift"
-                            type="text" 
-                            className="pl-8"
-                            placeholder="10,000"
-                            value={calculatorState.donorLapse.averageGift === '' ? '' : formatNumber(calculatorState.donorLapse.averageGift)}
-                            onChange={(e) => handleInputChange('donorLapse', 'averageGift', e.target.value)}
-                          />
-                        </div>
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <LabelWithTooltip 
-                          htmlFor="numberOfPortfolios" 
-                          tooltipText={fieldDefinitions.donorLapse.numberOfPortfolios}
-                        >
-                          Number of Portfolios
-                        </LabelWithTooltip>
-                        <Input 
-                          id="numberOfPortfolios"
-                          type="text" 
-                          placeholder="2"
-                          value={calculatorState.donorLapse.numberOfPortfolios === '' ? '' : formatNumber(calculatorState.donorLapse.numberOfPortfolios)}
-                          onChange={(e) => handleInputChange('donorLapse', 'numberOfPortfolios', e.target.value)}
-                        />
-                      </div>
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-              </div>
-            </Tabs>
-          </TooltipProvider>
+                    {/* Section description - shows only for active tab */}
+                    <div className="mb-4 text-sm text-gray-600 italic px-1">
+                      {messages.sections[activeTab as SectionId].description}
+                    </div>
+                
+                    <div className="pt-2">
+                      {SECTION_IDS.map((id) => (
+                        <TabsContent key={id} value={id} className="mt-0">
+                          <Card>
+                            <CardContent className="pt-6">
+                              <SectionFields
+                                section={id}
+                                inputs={calculatorState}
+                                onFieldChange={handleInputChange}
+                                onFieldError={handleInputError}
+                                errors={validationErrors[id]}
+                                benchmarkFields={getBenchmarkFields(calculatorState, id, benchmark)}
+                              />
+                            </CardContent>
+                          </Card>
+                        </TabsContent>
+                      ))}
+                    </div>
+                  </Tabs>
+                </TooltipProvider>
+              )}
+
+              <AssumptionsPanel
+                key={inputsKey}
+                assumptions={calculatorState.assumptions}
+                onAssumptionChange={handleAssumptionChange}
+                errors={validationErrors.assumptions}
+              />
           
-          <div className="mt-6 flex justify-center">
-            {!allSectionsCompleted ? (
-              <Button 
-                onClick={handleNextClick}
-                className="bg-gradient-to-r from-instil-purple to-purple-800 hover:from-instil-purple hover:to-purple-700 text-white px-8 py-2"
-              >
-                Next <ChevronRight size={16} className="ml-1" />
-              </Button>
-            ) : (
-              <Button 
-                onClick={calculateImpact}
-                className="bg-gradient-to-r from-instil-purple to-purple-800 hover:from-instil-purple hover:to-purple-700 text-white px-8 py-2"
-              >
-                Calculate ROI
-              </Button>
-            )}
-          </div>
-        </div>
+              <div className="mt-6 flex justify-center items-center gap-2">
+                <Button
+                  variant="ghost"
+                  onClick={handleStartOver}
+                  className="text-gray-500 hover:text-instil-purple"
+                >
+                  <RotateCcw size={14} className="mr-1" /> {messages.calculator.startOver}
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => importInputRef.current?.click()}
+                  className="text-gray-500 hover:text-instil-purple"
+                >
+                  <Upload size={14} className="mr-1" /> {messages.calculator.import}
+                </Button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  className="hidden"
+                  onChange={handleImportFile}
+                />
+                {!wizardMode && !allSectionsCompleted && (
+                  <Button 
+                    onClick={handleNextClick}
+                    className="bg-gradient-to-r from-instil-purple to-purple-800 hover:from-instil-purple hover:to-purple-700 text-white px-8 py-2"
+                  >
+                    {messages.calculator.next} <ChevronRight size={16} className="ml-1" />
+                  </Button>
+                )}
+                {!wizardMode && allSectionsCompleted && !liveMode && (
+                  <Button 
+                    onClick={calculateImpact}
+                    disabled={!isValid}
+                    className="bg-gradient-to-r from-instil-purple to-purple-800 hover:from-instil-purple hover:to-purple-700 text-white px-8 py-2"
+                  >
+                    {messages.calculator.calculate}
+                  </Button>
+                )}
+              </div>
+              {allSectionsCompleted && !isValid && (
+                <p className="mt-2 text-center text-xs text-destructive">
+                  {messages.calculator.fixFields}
+                </p>
+              )}
+            </div>
         
-        {showResults && (
-          <div className={`${resultsAnimationClass} bg-white rounded-lg border border-gray-100 shadow-sm p-3 md:p-4 overflow-hidden`}>
-            <div className="h-full flex flex-col">
-              {/* Impact Breakdown - Adjusted for responsive text */}
-              <div className="flex-grow space-y-3">
-                {/* Wasted Annual Salary Spend Section - Updated with responsive text */}
-                <div className="mb-3">
-                  <h3 className="text-xs md:text-sm font-semibold mb-2 transition-all duration-300">Wasted Annual Salary Spend</h3>
-                  <div className="grid grid-cols-1 gap-1">
-                    {chartData
-                      .filter(item => item.category === 'Wasted Annual Salary Spend')
-                      .map((entry, index) => (
-                        <div key={index} className="flex items-center justify-between py-1">
-                          <div className="flex items-center">
-                            <div 
-                              className="w-2 h-2 rounded-full mr-2" 
-                              style={{ backgroundColor: entry.color }}
-                            ></div>
-                            <div className="text-xs">
-                              {entry.name}
+            {resultsVisible && (
+              <div className={`${resultsAnimationClass} bg-white rounded-lg border border-gray-100 shadow-sm p-3 md:p-4 overflow-hidden`}>
+                <div className="h-full flex flex-col">
+                  {isStale && (
+                    <div className="mb-3 flex items-center justify-between gap-2 rounded-md border border-amber-200 bg-amber-50 px-2 py-1.5">
+                      <p className="flex items-center gap-1 text-xs text-amber-800">
+                        <AlertTriangle size={14} className="shrink-0" /> {messages.calculator.stale}
+                      </p>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={calculateImpact}
+                        disabled={!allSectionsCompleted || !isValid}
+                        className="h-auto px-2 py-1 text-xs text-instil-purple hover:text-instil-purple"
+                      >
+                        {messages.calculator.recalculate}
+                      </Button>
+                    </div>
+                  )}
+                  {isPartial && (
+                    <p className="mb-3 rounded-md bg-instil-lightpurple px-2 py-1.5 text-xs text-instil-purple">
+                      {formatMessage(messages.calculator.partialResults, {
+                        count: readySections.length,
+                        total: SECTION_IDS.length,
+                      })}
+                    </p>
+                  )}
+                  {/* Impact Breakdown - Adjusted for responsive text */}
+                  {isGated ? (
+                    <div className="flex-grow">
+                      <LeadCaptureForm onSubmit={handleLeadSubmit} />
+                    </div>
+                  ) : (
+                    <div className={`flex-grow space-y-3 ${isStale ? 'opacity-60' : ''}`}>
+                      {IMPACT_CATEGORIES.map((category, categoryIndex) => (
+                        <React.Fragment key={category}>
+                          {/* Add more spacing between the sections for desktop only */}
+                          {categoryIndex > 0 && <div className={isMobile ? "my-4" : "my-6"}></div>}
+
+                          <div className="mb-3">
+                            <h3 className="text-xs md:text-sm font-semibold mb-2 transition-all duration-300">{messages.categories[category]}</h3>
+                            <div className="grid grid-cols-1 gap-1">
+                              {chartData
+                                .filter(item => item.category === category)
+                                .map((entry) => (
+                                  <ResultRow
+                                    key={entry.id}
+                                    section={entry.id}
+                                    name={entry.name}
+                                    color={entry.color}
+                                    value={entry.value}
+                                    inputs={resultInputs}
+                                  />
+                                ))}
+                              <div className="flex items-center justify-between mt-1 pt-1 border-t border-gray-100">
+                                <div className="text-xs font-medium">{messages.calculator.total}</div>
+                                <div className="text-xs font-semibold">
+                                  {formatMoney(impacts[category])}
+                                </div>
+                              </div>
                             </div>
                           </div>
-                          <div className="text-xs font-medium">
-                            {formatCurrency(entry.value)}
-                          </div>
-                        </div>
+                        </React.Fragment>
                       ))}
-                    <div className="flex items-center justify-between mt-1 pt-1 border-t border-gray-100">
-                      <div className="text-xs font-medium">Total</div>
-                      <div className="text-xs font-semibold">
-                        {formatCurrency(wastedAnnualSalarySpend)}
-                      </div>
                     </div>
-                  </div>
-                </div>
-                
-                {/* Add more spacing between the sections for desktop only */}
-                <div className={isMobile ? "my-4" : "my-6"}></div>
-                
-                {/* Opportunity Cost Section - Updated with responsive text */}
-                <div className="mb-3">
-                  <h3 className="text-xs md:text-sm font-semibold mb-2 transition-all duration-300">Opportunity Cost</h3>
-                  <div className="grid grid-cols-1 gap-1">
-                    {chartData
-                      .filter(item => item.category === 'Opportunity Cost')
-                      .map((entry, index) => (
-                        <div key={index} className="flex items-center justify-between py-1">
-                          <div className="flex items-center">
-                            <div 
-                              className="w-2 h-2 rounded-full mr-2" 
-                              style={{ backgroundColor: entry.color }}
-                            ></div>
-                            <div className="text-xs">
-                              {entry.name}
+                  )}
+              
+                  {/* Total Impact and Chart - Adjusted for mobile */}
+                  <div className={`flex ${isMobile ? 'flex-col items-center' : 'flex-row items-center'} gap-2 mt-auto`}>
+                    <div className={`${isMobile ? 'w-full' : 'flex-1'}`}>
+                      <div className="text-center">
+                        <div className="mt-2 text-2xl md:text-3xl lg:text-4xl font-bold text-instil-purple transition-all duration-300">
+                          <AnimatedCounter value={totalImpact} />
+                        </div>
+                        <p className="text-xs text-gray-600">
+                          {isPartial ? messages.calculator.partialImpact : messages.calculator.potentialImpact}
+                        </p>
+                        {investmentSummary && (
+                          <div className="mt-2 grid grid-cols-3 gap-1 text-center">
+                            <div>
+                              <div className={`text-xs font-semibold ${investmentSummary.netBenefit < 0 ? 'text-destructive' : 'text-instil-purple'}`}>
+                                {formatMoney(investmentSummary.netBenefit)}
+                              </div>
+                              <p className="text-[10px] text-gray-600">{messages.calculator.netBenefit}</p>
+                            </div>
+                            <div>
+                              <div className="text-xs font-semibold text-instil-purple">
+                                {formatNumber(Math.round(investmentSummary.roiPercent), moneyFormat)}%
+                              </div>
+                              <p className="text-[10px] text-gray-600">{messages.calculator.roi}</p>
+                            </div>
+                            <div>
+                              <div className="text-xs font-semibold text-instil-purple">
+                                {investmentSummary.paybackMonths === null
+                                  ? messages.calculator.paybackNever
+                                  : formatMessage(messages.calculator.paybackMonths, {
+                                      months: formatNumber(investmentSummary.paybackMonths, moneyFormat, 1),
+                                    })}
+                              </div>
+                              <p className="text-[10px] text-gray-600">{messages.calculator.payback}</p>
                             </div>
                           </div>
-                          <div className="text-xs font-medium">
-                            {formatCurrency(entry.value)}
-                          </div>
-                        </div>
-                      ))}
-                    <div className="flex items-center justify-between mt-1 pt-1 border-t border-gray-100">
-                      <div className="text-xs font-medium">Total</div>
-                      <div className="text-xs font-semibold">
-                        {formatCurrency(opportunityCost)}
+                        )}
                       </div>
                     </div>
+                
+                    {/* Fixed the pie chart container positioning and size */}
+                    {!isGated && (
+                      <div className={`${isMobile ? 'w-full h-[120px]' : 'flex-1 h-[90px] max-w-[150px]'}`}>
+                        <ResponsiveContainer width="100%" height="100%">
+                          <PieChart>
+                            <Pie
+                              data={chartData}
+                              cx="50%"
+                              cy="50%"
+                              labelLine={false}
+                              outerRadius={isMobile ? 50 : 40}
+                              fill="#8884d8"
+                              dataKey="value"
+                            >
+                              {chartData.map((entry, index) => (
+                                <Cell key={`cell-${index}`} fill={entry.color} />
+                              ))}
+                            </Pie>
+                            <RechartsTooltip content={<CustomTooltip />} />
+                          </PieChart>
+                        </ResponsiveContainer>
+                      </div>
+                    )}
                   </div>
-                </div>
-              </div>
-              
-              {/* Total Impact and Chart - Adjusted for mobile */}
-              <div className={`flex ${isMobile ? 'flex-col items-center' : 'flex-row items-center'} gap-2 mt-auto`}>
-                <div className={`${isMobile ? 'w-full' : 'flex-1'}`}>
-                  <div className="text-center">
-                    <div className="mt-2 text-2xl md:text-3xl lg:text-4xl font-bold text-instil-purple transition-all duration-300">
-                      <AnimatedCounter value={totalImpact} />
-                    </div>
-                    <p className="text-xs text-gray-600">Potential Annual Impact</p>
+
+                  <div className="mt-3 flex flex-wrap justify-center gap-1">
+                    {completeInputs && !isGated && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={handleDownloadReport}
+                          disabled={isGeneratingReport}
+                          className="text-xs text-instil-purple hover:text-instil-purple"
+                        >
+                          {isGeneratingReport
+                            ? <Loader2 size={14} className="mr-1 animate-spin" />
+                            : <Download size={14} className="mr-1" />}
+                          {messages.calculator.downloadReport}
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-xs text-instil-purple hover:text-instil-purple"
+                            >
+                              <FileDown size={14} className="mr-1" /> {messages.calculator.export}
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent>
+                            <DropdownMenuItem onSelect={() => handleExport('csv')}>{messages.calculator.exportCsv}</DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => handleExport('json')}>{messages.calculator.exportJson}</DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleCopyShareLink}
+                      className="text-xs text-instil-purple hover:text-instil-purple"
+                    >
+                      <Link2 size={14} className="mr-1" /> {messages.calculator.copyShareLink}
+                    </Button>
                   </div>
                 </div>
-                
-                {/* Fixed the pie chart container positioning and size */}
-                <div className={`${isMobile ? 'w-full h-[120px]' : 'flex-1 h-[90px] max-w-[150px]'}`}>
-                  <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie
-                        data={chartData}
-                        cx="50%"
-                        cy="50%"
-                        labelLine={false}
-                        outerRadius={isMobile ? 50 : 40}
-                        fill="#8884d8"
-                        dataKey="value"
-                      >
-                        {chartData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={entry.color} />
-                        ))}
-                      </Pie>
-                      <RechartsTooltip content={<CustomTooltip />} />
-                    </PieChart>
-                  </ResponsiveContainer>
-                </div>
               </div>
-            </div>
+            )}
           </div>
-        )}
-      </div>
-    </div>
+
+          {resultsVisible && resultAssumptions && !isGated && (
+            <div className="mt-4 md:mt-6 bg-white rounded-lg border border-gray-100 shadow-sm p-3 md:p-4">
+              <InvestmentPanel
+                investment={investment}
+                onInvestmentChange={setInvestment}
+                assumptions={resultAssumptions}
+              />
+            </div>
+          )}
+
+          {resultsVisible && completeInputs && !isGated && (
+            <div className="mt-4 md:mt-6 bg-white rounded-lg border border-gray-100 shadow-sm p-3 md:p-4">
+              <ScenarioComparison
+                scenarios={scenarios}
+                onSave={(name) => addScenario(name, completeInputs, moneyFormat)}
+                onRemove={removeScenario}
+                onLoad={handleLoadScenario}
+              />
+            </div>
+          )}
+
+          {resultsVisible && completeInputs && !isGated && (
+            <div className="mt-4 md:mt-6 bg-white rounded-lg border border-gray-100 shadow-sm p-3 md:p-4">
+              <ProjectionPanel
+                inputs={completeInputs}
+                options={projectionOptions}
+                onOptionsChange={setProjectionOptions}
+              />
+            </div>
+          )}
+
+          {resultsVisible && completeInputs && !isGated && (
+            <div className="mt-4 md:mt-6 bg-white rounded-lg border border-gray-100 shadow-sm p-3 md:p-4">
+              <SensitivityPanel inputs={completeInputs} />
+            </div>
+          )}
+
+          {resultsVisible && completeInputs && !isGated && (
+            <div className="mt-4 md:mt-6 bg-white rounded-lg border border-gray-100 shadow-sm p-3 md:p-4">
+              <MonteCarloPanel inputs={completeInputs} />
+            </div>
+          )}
+
+          <AlertDialog open={!!pendingDraft}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{messages.calculator.resumeTitle}</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {pendingDraft?.savedAt
+                    ? formatMessage(messages.calculator.resumeDescriptionSaved, {
+                        savedAt: new Date(pendingDraft.savedAt).toLocaleString(messages.locale),
+                      })
+                    : messages.calculator.resumeDescription}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel onClick={discardDraft}>{messages.calculator.startOver}</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={handleResumeDraft}
+                  className="bg-instil-purple hover:bg-purple-800"
+                >
+                  {messages.calculator.resume}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </MoneyFormatContext.Provider>
+    </LanguageContext.Provider>
   );
 };
 
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+import { Label } from "@/components/ui/label";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import NumericInput from "@/components/roi/NumericInput";
+import { useMoneyFormat } from "@/hooks/use-money-format";
+import { useMessages } from "@/hooks/use-messages";
+import {
+  ASSUMPTION_FIELDS,
+  ASSUMPTION_UNITS,
+  DEFAULT_ASSUMPTIONS,
+  resolveAssumptions,
+  type AssumptionField,
+  type AssumptionInputs,
+  type FieldValue,
+  type SectionErrors,
+} from "@/lib/roi";
+
+interface AssumptionsPanelProps {
+  assumptions: AssumptionInputs;
+  onAssumptionChange: (field: AssumptionField, value: FieldValue) => void;
+  errors?: SectionErrors;
+}
+
+// Working-time and overhead assumptions behind the salary-based sections, collapsed by default
+const AssumptionsPanel: React.FC<AssumptionsPanelProps> = ({ assumptions, onAssumptionChange, errors = {} }) => {
+  const { formatNumber } = useMoneyFormat();
+  const { messages, t } = useMessages();
+  const [open, setOpen] = useState(false);
+  const resolved = resolveAssumptions(assumptions);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-4 rounded-lg border border-gray-100">
+      <CollapsibleTrigger className="flex w-full items-center justify-between gap-2 px-4 py-3 text-left">
+        <span className="flex items-center gap-2 text-xs md:text-sm font-semibold">
+          <SlidersHorizontal size={14} className="text-instil-purple" /> {messages.assumptions.title}
+        </span>
+        <span className="flex items-center gap-2 text-xs text-gray-500">
+          {t(messages.assumptions.summary, {
+            hours: formatNumber(resolved.annualHours),
+            weeks: formatNumber(resolved.weeksPerYear),
+            load: formatNumber(resolved.overheadLoad),
+          })}
+          <ChevronDown size={14} className={cn('transition-transform', open && 'rotate-180')} />
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-4">
+        <p className="text-xs text-gray-600 italic">
+          {messages.assumptions.intro}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {ASSUMPTION_FIELDS.map((field) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={field} className="text-xs">{messages.assumptions.fields[field].label}</Label>
+              <NumericInput
+                id={field}
+                placeholder={formatNumber(DEFAULT_ASSUMPTIONS[field])}
+                suffix={ASSUMPTION_UNITS[field] === 'percent' ? '%' : undefined}
+                decimals={2}
+                value={assumptions[field]}
+                onValueChange={(value) => onAssumptionChange(field, value)}
+                error={assumptions[field] === '' ? undefined : errors[field]}
+              />
+              <p className="text-xs text-gray-500">{messages.assumptions.fields[field].definition}</p>
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default AssumptionsPanel;
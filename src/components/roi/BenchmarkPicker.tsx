@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMoneyFormat } from "@/hooks/use-money-format";
+import { useMessages } from "@/hooks/use-messages";
+import {
+  ORGANIZATION_SIZES,
+  SECTORS,
+  type BenchmarkPreset,
+  type OrganizationSize,
+  type Sector,
+} from "@/lib/roi";
+
+interface BenchmarkPickerProps {
+  // The preset last filled in, if any
+  preset: BenchmarkPreset | null;
+  onApply: (preset: BenchmarkPreset) => void;
+}
+
+// Organization size and sector pickers that fill the calculator with typical values
+const BenchmarkPicker: React.FC<BenchmarkPickerProps> = ({ preset, onApply }) => {
+  const { messages } = useMessages();
+  const { format } = useMoneyFormat();
+  const [size, setSize] = useState<OrganizationSize | ''>(preset?.size ?? '');
+  const [sector, setSector] = useState<Sector | ''>(preset?.sector ?? '');
+  // Applying again after a currency change refills the money fields in the new currency
+  const isApplied = !!preset && preset.size === size && preset.sector === sector && preset.currency === format.currency;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3">
+      <span className="flex items-center gap-1 text-xs font-medium text-gray-600">
+        <Sparkles size={14} className="text-instil-purple" /> {messages.benchmarks.title}
+      </span>
+      <Select value={size} onValueChange={(value) => setSize(value as OrganizationSize)}>
+        <SelectTrigger className="h-8 w-auto gap-2 text-xs" aria-label={messages.benchmarks.size}>
+          <SelectValue placeholder={messages.benchmarks.size} />
+        </SelectTrigger>
+        <SelectContent>
+          {ORGANIZATION_SIZES.map((option) => (
+            <SelectItem key={option} value={option} className="text-xs">
+              {messages.benchmarks.sizes[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={sector} onValueChange={(value) => setSector(value as Sector)}>
+        <SelectTrigger className="h-8 w-auto gap-2 text-xs" aria-label={messages.benchmarks.sector}>
+          <SelectValue placeholder={messages.benchmarks.sector} />
+        </SelectTrigger>
+        <SelectContent>
+          {SECTORS.map((option) => (
+            <SelectItem key={option} value={option} className="text-xs">
+              {messages.benchmarks.sectors[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onApply({ size: size as OrganizationSize, sector: sector as Sector, currency: format.currency })}
+        disabled={!size || !sector || isApplied}
+        className="h-8 text-xs text-instil-purple hover:text-instil-purple"
+      >
+        {messages.benchmarks.apply}
+      </Button>
+    </div>
+  );
+};
+
+export default BenchmarkPicker;
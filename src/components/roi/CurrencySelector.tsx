@@ -0,0 +1,57 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CURRENCIES,
+  getCurrency,
+  LOCALES,
+  type CurrencyCode,
+  type MoneyFormat,
+} from "@/lib/roi";
+import { useMessages } from "@/hooks/use-messages";
+
+interface CurrencySelectorProps {
+  format: MoneyFormat;
+  onFormatChange: (format: MoneyFormat) => void;
+}
+
+// Currency and number format pickers; picking a currency also switches to its usual locale
+const CurrencySelector: React.FC<CurrencySelectorProps> = ({ format, onFormatChange }) => {
+  const { messages } = useMessages();
+
+  return (
+    <>
+      <Select
+        value={format.currency}
+        onValueChange={(value) => {
+          const currency = value as CurrencyCode;
+          onFormatChange({ currency, locale: getCurrency(currency).defaultLocale });
+        }}
+      >
+        <SelectTrigger className="h-8 w-auto gap-2 text-xs" aria-label={messages.settings.currency}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CURRENCIES.map((currency) => (
+            <SelectItem key={currency.code} value={currency.code} className="text-xs">
+              {currency.code} · {messages.settings.currencies[currency.code]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={format.locale} onValueChange={(locale) => onFormatChange({ ...format, locale })}>
+        <SelectTrigger className="h-8 w-auto gap-2 text-xs" aria-label={messages.settings.numberFormat}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {LOCALES.map((locale) => (
+            <SelectItem key={locale.id} value={locale.id} className="text-xs">
+              {locale.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  );
+};
+
+export default CurrencySelector;
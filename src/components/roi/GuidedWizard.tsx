@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Pencil } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import NumericInput from "@/components/roi/NumericInput";
+import { useMoneyFormat } from "@/hooks/use-money-format";
+import { useMessages } from "@/hooks/use-messages";
+import {
+  FIELD_UNITS,
+  formatFieldDisplay,
+  getFieldDecimals,
+  getFieldValue,
+  getSectionField,
+  SECTION_FIELDS,
+  SECTION_IDS,
+  type CalculatorInputs,
+  type FieldUnit,
+  type FieldValue,
+  type SectionId,
+  type ValidationErrors,
+} from "@/lib/roi";
+
+interface GuidedWizardProps {
+  inputs: CalculatorInputs;
+  onFieldChange: (section: SectionId, field: string, value: FieldValue) => void;
+  errors: ValidationErrors;
+  // Shown on the review step; left out when results update on their own
+  onCalculate?: () => void;
+  canCalculate: boolean;
+}
+
+// Every field of every section, one question per step
+const STEPS = SECTION_IDS.flatMap((section) =>
+  (SECTION_FIELDS[section] as string[]).map((field) => ({ section, field }))
+);
+
+// Asks for one field at a time with its explanation, then shows every answer for review
+const GuidedWizard: React.FC<GuidedWizardProps> = ({ inputs, onFieldChange, errors, onCalculate, canCalculate }) => {
+  const { format, formatNumber } = useMoneyFormat();
+  const { messages, t } = useMessages();
+  // Pick up at the first unanswered question, or the review if there are none
+  const [step, setStep] = useState(() => {
+    const next = STEPS.findIndex(({ section, field }) => getFieldValue(inputs, section, field) === '');
+    return next === -1 ? STEPS.length : next;
+  });
+  const isReview = step === STEPS.length;
+  const current = STEPS[step];
+  const definition = isReview ? null : getSectionField(current.section, current.field);
+  const value = isReview ? '' : getFieldValue(inputs, current.section, current.field);
+  const error = isReview ? undefined : errors[current.section]?.[current.field];
+
+  const fieldText = (section: SectionId, field: string) =>
+    (messages.sections[section].fields as Record<string, { label: string; definition: string }>)[field];
+  const canAdvance = !isReview && value !== '' && !error;
+
+  const goBack = () => setStep((prev) => Math.max(prev - 1, 0));
+  const goNext = () => {
+    if (canAdvance) setStep((prev) => prev + 1);
+  };
+
+  // Enter in the answer moves on, Alt + arrow keys move either way without leaving the keyboard
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && e.target instanceof HTMLInputElement) {
+      e.preventDefault();
+      goNext();
+    } else if (e.altKey && e.key === 'ArrowLeft') {
+      e.preventDefault();
+      goBack();
+    } else if (e.altKey && e.key === 'ArrowRight' && !isReview) {
+      e.preventDefault();
+      goNext();
+    }
+  };
+
+  return (
+    <div className="space-y-4" onKeyDown={handleKeyDown}>
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{isReview ? messages.wizard.review : messages.sections[current.section].result}</span>
+          <span>
+            {isReview
+              ? messages.wizard.reviewStep
+              : t(messages.wizard.step, { step: step + 1, total: STEPS.length })}
+          </span>
+        </div>
+        <Progress
+          value={(step / STEPS.length) * 100}
+          aria-label={messages.wizard.progress}
+          className="h-2 bg-instil-lightpurple [&>div]:bg-instil-purple"
+        />
+      </div>
+
+      {isReview ? (
+        <Card>
+          <CardContent className="pt-6 space-y-4 max-h-[320px] overflow-auto">
+            <p className="text-sm text-gray-600">{messages.wizard.reviewIntro}</p>
+            {SECTION_IDS.map((section) => (
+              <div key={section} className="space-y-1">
+                <div className="text-xs font-semibold text-instil-purple">{messages.sections[section].result}</div>
+                {(SECTION_FIELDS[section] as string[]).map((field) => (
+                  <button
+                    key={field}
+                    type="button"
+                    onClick={() => setStep(STEPS.findIndex((s) => s.section === section && s.field === field))}
+                    className="flex w-full items-center justify-between gap-2 rounded px-1 py-0.5 text-left text-xs hover:bg-gray-50"
+                    aria-label={t(messages.wizard.edit, { field: fieldText(section, field).label })}
+                  >
+                    <span className="text-gray-600">{fieldText(section, field).label}</span>
+                    <span className="flex items-center gap-1 font-medium">
+                      {formatFieldDisplay(
+                        getFieldValue(inputs, section, field),
+                        (FIELD_UNITS[section] as Record<string, FieldUnit>)[field],
+                        format
+                      )}
+                      <Pencil size={10} className="text-gray-400" />
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6 space-y-3">
+            <Label htmlFor={`wizard-${current.section}-${current.field}`} className="text-base font-semibold">
+              {fieldText(current.section, current.field).label}
+            </Label>
+            <p className="text-sm text-gray-600">{fieldText(current.section, current.field).definition}</p>
+            <NumericInput
+              key={`${current.section}-${current.field}`}
+              id={`wizard-${current.section}-${current.field}`}
+              autoFocus
+              currency={definition.type === 'money'}
+              suffix={definition.type === 'percentage' ? '%' : undefined}
+              placeholder={formatNumber(definition.placeholder)}
+              decimals={getFieldDecimals(definition.type)}
+              value={value}
+              onValueChange={(next) => onFieldChange(current.section, current.field, next)}
+              error={value === '' ? undefined : error}
+            />
+            <p className="text-xs text-gray-400">{messages.wizard.keyboardHint}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex justify-between items-center gap-2">
+        <Button variant="ghost" onClick={goBack} disabled={step === 0} className="text-gray-500 hover:text-instil-purple">
+          <ChevronLeft size={16} className="mr-1" /> {messages.wizard.back}
+        </Button>
+        {!isReview ? (
+          <Button
+            onClick={goNext}
+            disabled={!canAdvance}
+            className="bg-gradient-to-r from-instil-purple to-purple-800 hover:from-instil-purple hover:to-purple-700 text-white px-8 py-2"
+          >
+            {messages.calculator.next} <ChevronRight size={16} className="ml-1" />
+          </Button>
+        ) : (
+          onCalculate && (
+            <Button
+              onClick={onCalculate}
+              disabled={!canCalculate}
+              className="bg-gradient-to-r from-instil-purple to-purple-800 hover:from-instil-purple hover:to-purple-700 text-white px-8 py-2"
+            >
+              {messages.calculator.calculate}
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GuidedWizard;
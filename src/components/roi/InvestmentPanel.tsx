@@ -0,0 +1,105 @@
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import NumericInput from "@/components/roi/NumericInput";
+import { useMoneyFormat } from "@/hooks/use-money-format";
+import { useMessages } from "@/hooks/use-messages";
+import {
+  LICENSE_TIERS,
+  validateInvestment,
+  type FieldValue,
+  type InvestmentInputs,
+  type LicenseTierId,
+  type ResolvedAssumptions,
+} from "@/lib/roi";
+
+interface InvestmentPanelProps {
+  investment: InvestmentInputs;
+  onInvestmentChange: (investment: InvestmentInputs) => void;
+  // The working year training hours are checked against
+  assumptions: ResolvedAssumptions;
+}
+
+// Pricing inputs the net ROI figures are measured against
+const InvestmentPanel: React.FC<InvestmentPanelProps> = ({ investment, onInvestmentChange, assumptions }) => {
+  const { format, formatCurrency } = useMoneyFormat();
+  const { messages, t } = useMessages();
+  const errors = React.useMemo(
+    () => validateInvestment(investment, assumptions, messages),
+    [investment, assumptions, messages]
+  );
+
+  const updateField = (field: 'seats' | 'implementationFee' | 'trainingHours', value: FieldValue) => {
+    onInvestmentChange({ ...investment, [field]: value });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xs md:text-sm font-semibold">{messages.investment.title}</h3>
+        <p className="text-xs text-gray-600 italic">
+          {messages.investment.intro}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="licenseTier" className="text-xs">{messages.investment.licenseTier}</Label>
+          <Select
+            value={investment.licenseTier}
+            onValueChange={(value) => onInvestmentChange({ ...investment, licenseTier: value as LicenseTierId })}
+          >
+            <SelectTrigger id="licenseTier">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LICENSE_TIERS.map((tier) => (
+                <SelectItem key={tier.id} value={tier.id}>
+                  {tier.name} ({t(messages.investment.tierPrice, { price: formatCurrency(tier.pricePerSeat[format.currency]) })})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="seats" className="text-xs">{messages.investment.seats}</Label>
+          <NumericInput
+            id="seats"
+            placeholder="6"
+            value={investment.seats}
+            onValueChange={(value) => updateField('seats', value)}
+            error={errors.seats}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="implementationFee" className="text-xs">{messages.investment.implementationFee}</Label>
+          <NumericInput
+            id="implementationFee"
+            currency
+            placeholder="10,000"
+            decimals={2}
+            value={investment.implementationFee}
+            onValueChange={(value) => updateField('implementationFee', value)}
+            error={errors.implementationFee}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="trainingHours" className="text-xs">{messages.investment.trainingHours}</Label>
+          <NumericInput
+            id="trainingHours"
+            placeholder="8"
+            decimals={2}
+            value={investment.trainingHours}
+            onValueChange={(value) => updateField('trainingHours', value)}
+            error={errors.trainingHours}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvestmentPanel;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LANGUAGES, type Language } from "@/lib/roi";
+import { useMessages } from "@/hooks/use-messages";
+
+interface LanguageSelectorProps {
+  language: Language;
+  onLanguageChange: (language: Language) => void;
+}
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ language, onLanguageChange }) => {
+  const { messages } = useMessages();
+
+  return (
+    <Select value={language} onValueChange={(value) => onLanguageChange(value as Language)}>
+      <SelectTrigger className="h-8 w-auto gap-2 text-xs" aria-label={messages.settings.language}>
+        <Languages className="h-3.5 w-3.5" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LANGUAGES.map((option) => (
+          <SelectItem key={option.id} value={option.id} lang={option.id} className="text-xs">
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LanguageSelector;
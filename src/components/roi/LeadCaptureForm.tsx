@@ -0,0 +1,72 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Lock } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useMessages } from "@/hooks/use-messages";
+import { createLeadSchema, type LeadDetails } from "@/lib/roi";
+
+interface LeadCaptureFormProps {
+  // The form shows a spinner until this settles; the caller decides whether to unlock the results
+  onSubmit: (lead: LeadDetails) => Promise<void>;
+}
+
+const LEAD_FIELDS: { name: keyof LeadDetails; type: string; autoComplete: string }[] = [
+  { name: 'name', type: 'text', autoComplete: 'name' },
+  { name: 'email', type: 'email', autoComplete: 'email' },
+  { name: 'organization', type: 'text', autoComplete: 'organization' },
+  { name: 'role', type: 'text', autoComplete: 'organization-title' },
+];
+
+// Asks for contact details before the full breakdown is shown
+const LeadCaptureForm: React.FC<LeadCaptureFormProps> = ({ onSubmit }) => {
+  const { messages } = useMessages();
+  const schema = React.useMemo(() => createLeadSchema(messages), [messages]);
+  const form = useForm<LeadDetails>({
+    resolver: zodResolver(schema),
+    defaultValues: { name: '', email: '', organization: '', role: '' },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="flex items-center gap-1 text-xs md:text-sm font-semibold">
+          <Lock size={14} className="text-instil-purple" /> {messages.leads.title}
+        </h3>
+        <p className="text-xs text-gray-600 italic">{messages.leads.intro}</p>
+      </div>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-2" noValidate>
+          {LEAD_FIELDS.map((field) => (
+            <FormField
+              key={field.name}
+              control={form.control}
+              name={field.name}
+              render={({ field: input }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className="text-xs">{messages.leads[field.name]}</FormLabel>
+                  <FormControl>
+                    <Input type={field.type} autoComplete={field.autoComplete} className="h-8 text-xs" {...input} />
+                  </FormControl>
+                  <FormMessage className="text-xs" />
+                </FormItem>
+              )}
+            />
+          ))}
+          <Button
+            type="submit"
+            disabled={form.formState.isSubmitting}
+            className="w-full bg-gradient-to-r from-instil-purple to-purple-800 hover:from-instil-purple hover:to-purple-700 text-white"
+          >
+            {form.formState.isSubmitting && <Loader2 size={14} className="mr-1 animate-spin" />}
+            {messages.leads.submit}
+          </Button>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default LeadCaptureForm;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis, YAxis } from 'recharts';
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import NumericInput from "@/components/roi/NumericInput";
+import { useMoneyFormat } from "@/hooks/use-money-format";
+import { useMessages } from "@/hooks/use-messages";
+import {
+  createDefaultRanges,
+  DEFAULT_SIMULATION_ITERATIONS,
+  FIELD_UNITS,
+  isValidRange,
+  runSimulationAsync,
+  SECTION_FIELDS,
+  SECTION_IDS,
+  type CalculatorInputs,
+  type Distribution,
+  type FieldRange,
+  type FieldUnit,
+  type InputRanges,
+  type SectionId,
+  type SimulationResult,
+} from "@/lib/roi";
+
+interface MonteCarloPanelProps {
+  inputs: CalculatorInputs;
+}
+
+const RANGE_POINTS: (keyof FieldRange)[] = ['low', 'likely', 'high'];
+
+// Optional range mode: three-point estimates per input, simulated to give a confidence interval
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ inputs }) => {
+  const { formatCurrency, formatCompactCurrency, formatNumber } = useMoneyFormat();
+  const { messages, t } = useMessages();
+  const [enabled, setEnabled] = useState(false);
+  const [ranges, setRanges] = useState<InputRanges>(() => createDefaultRanges(inputs));
+  const [distribution, setDistribution] = useState<Distribution>('pert');
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  // Bumped whenever the inputs or ranges change, so a run that finishes afterwards is thrown away
+  const runIdRef = React.useRef(0);
+
+  // Start again from the point estimates whenever the underlying results change
+  React.useEffect(() => {
+    runIdRef.current += 1;
+    setRanges(createDefaultRanges(inputs));
+    setResult(null);
+  }, [inputs]);
+
+  const unitOf = (section: SectionId, field: string) => (FIELD_UNITS[section] as Record<string, FieldUnit>)[field];
+  const allRangesValid = SECTION_IDS.every((section) =>
+    Object.entries(ranges[section] ?? {}).every(([field, range]) => isValidRange(range, unitOf(section, field)))
+  );
+
+  // Out-of-order estimates are flagged on the likely value, a percentage over 100% on the high one
+  const rangeError = (range: FieldRange, unit: FieldUnit, point: keyof FieldRange) => {
+    if (point === 'likely' && !isValidRange(range)) return messages.monteCarlo.rangeOrder;
+    if (point === 'high' && isValidRange(range) && !isValidRange(range, unit)) {
+      return t(messages.validation.maxPercent, { max: 100 });
+    }
+    return undefined;
+  };
+
+  const updateRange = (section: SectionId, field: string, point: keyof FieldRange, value: number | '') => {
+    if (value === '') return;
+    runIdRef.current += 1;
+    setRanges((prev) => ({
+      ...prev,
+      [section]: { ...prev[section], [field]: { ...prev[section][field], [point]: value } },
+    }));
+    setResult(null);
+  };
+
+  // Results from the other distribution no longer apply
+  const handleDistributionChange = (value: Distribution) => {
+    runIdRef.current += 1;
+    setDistribution(value);
+    setResult(null);
+  };
+
+  const handleRun = async () => {
+    const runId = ++runIdRef.current;
+    setIsRunning(true);
+    try {
+      const next = await runSimulationAsync({ inputs, ranges, distribution, iterations: DEFAULT_SIMULATION_ITERATIONS });
+      if (runId === runIdRef.current) setResult(next);
+    } catch {
+      if (runId === runIdRef.current) toast.error(messages.monteCarlo.runFailed);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const histogramData = result?.histogram.map((bin) => ({
+    label: formatCompactCurrency((bin.start + bin.end) / 2),
+    range: `${formatCurrency(bin.start)} – ${formatCurrency(bin.end)}`,
+    count: bin.count,
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xs md:text-sm font-semibold">{messages.monteCarlo.title}</h3>
+          <p className="text-xs text-gray-600 italic">
+            {messages.monteCarlo.intro}
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={setEnabled}
+          aria-label={messages.monteCarlo.enable}
+          className="data-[state=checked]:bg-instil-purple"
+        />
+      </div>
+
+      {enabled && (
+        <>
+          {SECTION_IDS.map((section) => (
+            <div key={section} className="space-y-2">
+              <div className="text-xs font-semibold text-instil-purple">{messages.sections[section].result}</div>
+              {(SECTION_FIELDS[section] as string[]).map((field) => {
+                const range = ranges[section]?.[field];
+                const unit = unitOf(section, field);
+                if (!range) return null;
+                return (
+                  <div key={field} className="grid grid-cols-1 md:grid-cols-[1fr_repeat(3,7rem)] gap-2 items-start">
+                    <div className="text-xs pt-2">{(messages.sections[section].fields as Record<string, { label: string }>)[field].label}</div>
+                    {RANGE_POINTS.map((point) => (
+                      <NumericInput
+                        key={point}
+                        id={`range-${section}-${field}-${point}`}
+                        aria-label={t(messages.monteCarlo.estimate, { point: messages.monteCarlo.points[point] })}
+                        placeholder={messages.monteCarlo.points[point]}
+                        currency={unit === 'currency'}
+                        suffix={unit === 'percent' ? '%' : undefined}
+                        decimals={2}
+                        value={Math.round(range[point] * 100) / 100}
+                        onValueChange={(value) => updateRange(section, field, point, value)}
+                        error={rangeError(range, unit, point)}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1 w-40">
+              <Label htmlFor="distribution" className="text-xs">{messages.monteCarlo.distribution}</Label>
+              <Select value={distribution} onValueChange={(value) => handleDistributionChange(value as Distribution)}>
+                <SelectTrigger id="distribution">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pert">{messages.monteCarlo.pert}</SelectItem>
+                  <SelectItem value="triangular">{messages.monteCarlo.triangular}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={handleRun}
+              disabled={!allRangesValid || isRunning}
+              className="bg-instil-purple hover:bg-purple-800 text-white"
+            >
+              {isRunning && <Loader2 size={14} className="mr-1 animate-spin" />}
+              {t(messages.monteCarlo.run, { count: formatNumber(DEFAULT_SIMULATION_ITERATIONS) })}
+            </Button>
+          </div>
+
+          {result && histogramData && (
+            <>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {([['P10', result.p10], ['P50', result.p50], ['P90', result.p90]] as const).map(([label, value]) => (
+                  <div key={label} className="rounded-md bg-instil-lightpurple p-2">
+                    <div className="text-sm md:text-base font-bold text-instil-purple">{formatCurrency(value)}</div>
+                    <p className="text-[10px] text-gray-600">{label}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-500">
+                {t(messages.monteCarlo.interval, { low: formatCurrency(result.p10), high: formatCurrency(result.p90) })}
+              </p>
+              <div className="h-[180px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={histogramData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+                    <XAxis dataKey="label" tick={{ fontSize: 9 }} interval={3} />
+                    <YAxis tick={{ fontSize: 10 }} width={40} />
+                    <RechartsTooltip
+                      labelFormatter={(_, payload) => payload?.[0]?.payload.range ?? ''}
+                      formatter={(value: number) => [value, messages.monteCarlo.simulations]}
+                      contentStyle={{ fontSize: 12 }}
+                    />
+                    <Bar dataKey="count" fill="#8E24AA" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
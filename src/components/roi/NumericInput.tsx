@@ -0,0 +1,157 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { useMoneyFormat } from "@/hooks/use-money-format";
+import { useMessages } from "@/hooks/use-messages";
+import {
+  formatFieldValue,
+  formatNumberInput,
+  getNumberSeparators,
+  mapCaretPosition,
+  parseNumberInput,
+  type FieldValue,
+} from "@/lib/roi";
+
+interface NumericInputProps extends Omit<React.ComponentProps<typeof Input>, 'value' | 'onChange' | 'type' | 'prefix'> {
+  value: FieldValue;
+  onValueChange: (value: FieldValue) => void;
+  // Decimal places accepted; 0 for whole numbers only
+  decimals?: number;
+  // Defaults to the calculator's selected locale
+  locale?: string;
+  // Shows the selected currency's symbol on whichever side the locale puts it
+  currency?: boolean;
+  // Adornments shown inside the input, e.g. "%"
+  prefix?: string;
+  suffix?: string;
+  // Validation message from the surrounding form, shown when the text itself parses
+  error?: string;
+  // Told when the text can't be read as a number and when that clears, since the value alone
+  // can't tell unreadable text from an empty field
+  onErrorChange?: (error: string | null) => void;
+}
+
+// Text input for numbers that regroups digits as the user types, keeps the caret in place
+// and shows an inline error instead of guessing at input it can't read
+const NumericInput: React.FC<NumericInputProps> = ({
+  value,
+  onValueChange,
+  decimals = 0,
+  locale: localeProp,
+  currency = false,
+  prefix: prefixProp,
+  suffix: suffixProp,
+  error: validationError,
+  onErrorChange,
+  className,
+  id,
+  ...props
+}) => {
+  const moneyFormat = useMoneyFormat();
+  const { messages } = useMessages();
+  const locale = localeProp ?? moneyFormat.locale;
+  const prefix = currency ? moneyFormat.currencyAdornment.prefix : prefixProp;
+  const suffix = currency ? moneyFormat.currencyAdornment.suffix : suffixProp;
+  const options = { locale, maxFractionDigits: decimals, messages: messages.validation };
+  const inputRef = useRef<HTMLInputElement>(null);
+  const pendingCaret = useRef<number | null>(null);
+  const [text, setText] = useState(() => formatFieldValue(value, options));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow changes made outside this input (restored drafts, start over) without
+  // clobbering text that is mid-edit but already represents the same value. Done while
+  // rendering, against the value last seen, so the check uses the current text and error.
+  const [synced, setSynced] = useState({ value, locale, decimals });
+  if (synced.value !== value || synced.locale !== locale || synced.decimals !== decimals) {
+    setSynced({ value, locale, decimals });
+    const current = parseNumberInput(text, { ...options, strictGrouping: false });
+    if ((current.error || current.value !== value) && (!error || value !== '')) {
+      setText(formatFieldValue(value, options));
+      setError(null);
+    }
+  }
+
+  // Report the error while it is shown, and its clearing when it goes away or the input unmounts
+  const reportError = useRef(onErrorChange);
+  useEffect(() => {
+    reportError.current = onErrorChange;
+  });
+  useEffect(() => {
+    if (!error) return;
+    const report = reportError.current;
+    report?.(error);
+    return () => report?.(null);
+  }, [error]);
+
+  useLayoutEffect(() => {
+    if (pendingCaret.current !== null && inputRef.current) {
+      inputRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [text]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const rawText = e.target.value;
+    const caret = e.target.selectionStart ?? rawText.length;
+
+    // Only text the user has freshly typed a separator into needs its grouping checked;
+    // deleting a digit from "1,234" leaves "1,23", which is still the user's 123
+    const previous = parseNumberInput(text, options);
+    const { decimal } = getNumberSeparators(locale);
+    const countSeparators = (value: string) =>
+      [...value].filter((char) => !/[0-9\-−]/.test(char) && char !== decimal).length;
+    const strictGrouping = !!previous.error || countSeparators(rawText) > countSeparators(text);
+
+    const parsed = parseNumberInput(rawText, { ...options, strictGrouping });
+    if (parsed.error) {
+      setText(rawText);
+      setError(parsed.error);
+      onValueChange('');
+      return;
+    }
+
+    const formatted = formatNumberInput(rawText, { ...options, strictGrouping });
+    pendingCaret.current = mapCaretPosition(rawText, caret, formatted, locale);
+    setText(formatted);
+    setError(null);
+    onValueChange(parsed.value);
+  };
+
+  const errorId = id ? `${id}-error` : undefined;
+  const message = error ?? validationError;
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        {prefix && (
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">{prefix}</span>
+        )}
+        <Input
+          {...props}
+          id={id}
+          ref={inputRef}
+          type="text"
+          inputMode={decimals > 0 ? 'decimal' : 'numeric'}
+          className={cn(
+            prefix && (prefix.length > 1 ? 'pl-12' : 'pl-8'),
+            suffix && (suffix.length > 1 ? 'pr-12' : 'pr-8'),
+            message && 'border-destructive',
+            className
+          )}
+          value={text}
+          onChange={handleChange}
+          aria-invalid={!!message}
+          aria-describedby={message ? errorId : undefined}
+        />
+        {suffix && (
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500">{suffix}</span>
+        )}
+      </div>
+      {message && (
+        <p id={errorId} className="text-xs text-destructive">{message}</p>
+      )}
+    </div>
+  );
+};
+
+export default NumericInput;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis, YAxis } from 'recharts';
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import NumericInput from "@/components/roi/NumericInput";
+import { useMoneyFormat } from "@/hooks/use-money-format";
+import { useMessages } from "@/hooks/use-messages";
+import {
+  PROJECTION_HORIZONS,
+  projectImpacts,
+  type CalculatorInputs,
+  type ProjectionHorizon,
+  type ProjectionOptions,
+} from "@/lib/roi";
+
+interface ProjectionPanelProps {
+  inputs: CalculatorInputs;
+  options: ProjectionOptions;
+  onOptionsChange: (options: ProjectionOptions) => void;
+}
+
+// Horizon picker plus, for multi-year horizons, the growth assumptions, a year-by-year table and a cumulative chart
+const ProjectionPanel: React.FC<ProjectionPanelProps> = ({ inputs, options, onOptionsChange }) => {
+  const { formatCurrency, formatCompactCurrency } = useMoneyFormat();
+  const { messages, t } = useMessages();
+  const years = React.useMemo(() => projectImpacts(inputs, options), [inputs, options]);
+
+  // A cleared field keeps the last rate until a new one is typed
+  const updateRate = (key: 'upgradeDecayRate' | 'salaryGrowthRate', value: number | '') => {
+    if (value === '') return;
+    onOptionsChange({ ...options, [key]: Math.min(value, 100) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-xs md:text-sm font-semibold">{messages.projection.title}</h3>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={String(options.years)}
+          onValueChange={(value) => value && onOptionsChange({ ...options, years: Number(value) as ProjectionHorizon })}
+        >
+          {PROJECTION_HORIZONS.map((horizon) => (
+            <ToggleGroupItem
+              key={horizon}
+              value={String(horizon)}
+              className="text-xs data-[state=on]:bg-instil-purple data-[state=on]:text-white"
+            >
+              {horizon === 1 ? messages.projection.horizonYear : t(messages.projection.horizonYears, { years: horizon })}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {options.years > 1 && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="upgradeDecayRate" className="text-xs">{messages.projection.upgradeDecay}</Label>
+              <NumericInput
+                id="upgradeDecayRate"
+                suffix="%"
+                decimals={2}
+                value={options.upgradeDecayRate}
+                onValueChange={(value) => updateRate('upgradeDecayRate', value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="salaryGrowthRate" className="text-xs">{messages.projection.salaryGrowth}</Label>
+              <NumericInput
+                id="salaryGrowthRate"
+                suffix="%"
+                decimals={2}
+                value={options.salaryGrowthRate}
+                onValueChange={(value) => updateRate('salaryGrowthRate', value)}
+              />
+            </div>
+          </div>
+
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead>{messages.projection.year}</TableHead>
+                <TableHead className="text-right">{messages.projection.wastedSalary}</TableHead>
+                <TableHead className="text-right">{messages.projection.opportunityCost}</TableHead>
+                <TableHead className="text-right">{messages.projection.annualTotal}</TableHead>
+                <TableHead className="text-right">{messages.projection.cumulative}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {years.map((row) => (
+                <TableRow key={row.year}>
+                  <TableCell>{row.year}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.wastedSalarySpend)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.opportunityCost)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.total)}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatCurrency(row.cumulative)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="h-[200px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={years} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="year" tick={{ fontSize: 10 }} tickFormatter={(year) => t(messages.projection.yearShort, { year })} />
+                <YAxis tick={{ fontSize: 10 }} tickFormatter={formatCompactCurrency} width={56} />
+                <RechartsTooltip
+                  formatter={(value: number) => formatCurrency(value)}
+                  labelFormatter={(year) => t(messages.projection.yearLabel, { year })}
+                  contentStyle={{ fontSize: 12 }}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line type="monotone" dataKey="cumulative" name={messages.projection.cumulative} stroke="#6A1B9A" strokeWidth={2} dot={{ r: 2 }} />
+                <Line type="monotone" dataKey="total" name={messages.projection.annual} stroke="#42F2F7" strokeWidth={2} dot={{ r: 2 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectionPanel;
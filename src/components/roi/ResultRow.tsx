@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import { useMoneyFormat } from "@/hooks/use-money-format";
+import { useMessages } from "@/hooks/use-messages";
+import { explainSection, type CalculatorInputs, type SectionId } from "@/lib/roi";
+
+interface ResultRowProps {
+  section: SectionId;
+  name: string;
+  color: string;
+  value: number;
+  // The inputs the results were calculated from, so the math matches the figure shown
+  inputs: CalculatorInputs;
+}
+
+// A section's line in the results, which expands to show the formula behind it
+const ResultRow: React.FC<ResultRowProps> = ({ section, name, color, value, inputs }) => {
+  const { format, formatCurrency } = useMoneyFormat();
+  const { messages, t } = useMessages();
+  const [open, setOpen] = useState(false);
+  const explanation = React.useMemo(
+    () => explainSection(inputs, section, messages, format),
+    [inputs, section, messages, format]
+  );
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger
+        className="flex w-full items-center justify-between py-1 text-left"
+        title={t(messages.calculator.showMath, { name })}
+      >
+        <div className="flex items-center">
+          <div className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: color }}></div>
+          <div className="text-xs">{name}</div>
+        </div>
+        <div className="flex items-center gap-1 text-xs font-medium">
+          {formatCurrency(value)}
+          <ChevronDown size={12} className={cn('text-gray-400 transition-transform', open && 'rotate-180')} />
+        </div>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="ml-4 mb-2 space-y-1 rounded-md bg-gray-50 px-3 py-2">
+        <p className="font-mono text-[11px] text-gray-800 break-words">{explanation.formula}</p>
+        <p className="text-[11px] text-gray-600 italic">{explanation.assumption}</p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ResultRow;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis, YAxis } from 'recharts';
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMessages } from "@/hooks/use-messages";
+import {
+  compareScenarios,
+  formatCompactCurrency,
+  formatCurrency,
+  SECTION_IDS,
+  suggestScenarioName,
+  type MoneyFormat,
+  type SavedScenario,
+} from "@/lib/roi";
+
+interface ScenarioComparisonProps {
+  scenarios: SavedScenario[];
+  onSave: (name: string) => void;
+  onRemove: (id: string) => void;
+  onLoad: (scenario: SavedScenario) => void;
+}
+
+const SCENARIO_COLORS = ['#302661', '#8E24AA', '#42F2F7', '#AB47BC', '#52d7c3'];
+
+// Difference from the baseline with an explicit sign, e.g. "+$12,000"
+const Delta: React.FC<{ value: number; format: MoneyFormat }> = ({ value, format }) => {
+  return (
+    <div className={`text-[10px] ${value > 0 ? 'text-emerald-600' : value < 0 ? 'text-destructive' : 'text-gray-400'}`}>
+      {value === 0 ? '—' : `${value > 0 ? '+' : '−'}${formatCurrency(Math.abs(value), format)}`}
+    </div>
+  );
+};
+
+// Save the current results under a name and compare saved scenarios side by side.
+// Each scenario's figures are shown in the currency it was saved in.
+const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({ scenarios, onSave, onRemove, onLoad }) => {
+  const { messages, t } = useMessages();
+  const [name, setName] = useState('');
+  const suggestedName = suggestScenarioName(scenarios, messages);
+  const columns = React.useMemo(() => compareScenarios(scenarios), [scenarios]);
+  const scenarioFormats = new Map(scenarios.map((scenario) => [scenario.id, scenario.format]));
+
+  const chartData = React.useMemo(
+    () =>
+      SECTION_IDS.map((id) => ({
+        name: messages.sections[id].result,
+        ...Object.fromEntries(columns.map(({ scenario, impacts }) => [scenario.id, impacts.sections[id]])),
+      })),
+    [columns, messages]
+  );
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(name.trim() || suggestedName);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xs md:text-sm font-semibold">{messages.scenarios.title}</h3>
+        <p className="text-xs text-gray-600 italic">
+          {messages.scenarios.intro}
+        </p>
+      </div>
+
+      <form onSubmit={handleSave} className="flex gap-2">
+        <Input
+          aria-label={messages.scenarios.nameLabel}
+          placeholder={suggestedName}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={40}
+        />
+        <Button type="submit" className="bg-instil-purple hover:bg-purple-800 text-white shrink-0">
+          {messages.scenarios.save}
+        </Button>
+      </form>
+
+      {columns.length > 0 && (
+        <>
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead>{messages.scenarios.section}</TableHead>
+                {columns.map(({ scenario }, index) => (
+                  <TableHead key={scenario.id} className="text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <span
+                        className="w-2 h-2 rounded-full shrink-0"
+                        style={{ backgroundColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => onLoad(scenario)}
+                        className="font-semibold text-instil-purple hover:underline"
+                        title={messages.scenarios.load}
+                      >
+                        {scenario.name}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onRemove(scenario.id)}
+                        className="text-gray-400 hover:text-destructive"
+                        aria-label={t(messages.scenarios.remove, { name: scenario.name })}
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {SECTION_IDS.map((id) => (
+                <TableRow key={id}>
+                  <TableCell>{messages.sections[id].result}</TableCell>
+                  {columns.map(({ scenario, impacts, sectionDeltas, comparable }, index) => (
+                    <TableCell key={scenario.id} className="text-right">
+                      {formatCurrency(impacts.sections[id], scenario.format)}
+                      {index > 0 && comparable && <Delta value={sectionDeltas[id]} format={scenario.format} />}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell>{messages.scenarios.total}</TableCell>
+                {columns.map(({ scenario, impacts, totalDelta, comparable }, index) => (
+                  <TableCell key={scenario.id} className="text-right">
+                    {formatCurrency(impacts.total, scenario.format)}
+                    {index > 0 && comparable && <Delta value={totalDelta} format={scenario.format} />}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+          {columns.length > 1 && (
+            <p className="text-[10px] text-gray-500">
+              {t(messages.scenarios.relativeTo, { name: columns[0].scenario.name })}
+            </p>
+          )}
+
+          <div className="h-[220px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="name" tick={{ fontSize: 10 }} interval={0} />
+                <YAxis
+                  tick={{ fontSize: 10 }}
+                  tickFormatter={(value: number) => formatCompactCurrency(value, columns[0].scenario.format)}
+                  width={56}
+                />
+                <RechartsTooltip
+                  formatter={(value: number, _name, item) =>
+                    formatCurrency(value, scenarioFormats.get(String(item.dataKey)) ?? columns[0].scenario.format)
+                  }
+                  contentStyle={{ fontSize: 12 }}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {columns.map(({ scenario }, index) => (
+                  <Bar
+                    key={scenario.id}
+                    dataKey={scenario.id}
+                    name={scenario.name}
+                    fill={SCENARIO_COLORS[index % SCENARIO_COLORS.length]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioComparison;
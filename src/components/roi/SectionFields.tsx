@@ -0,0 +1,105 @@
+import React from 'react';
+import { HelpCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import NumericInput from "@/components/roi/NumericInput";
+import { useMoneyFormat } from "@/hooks/use-money-format";
+import { useMessages } from "@/hooks/use-messages";
+import {
+  getFieldDecimals,
+  getFieldValue,
+  SECTION_DEFINITIONS,
+  type AnySectionDefinition,
+  type CalculatorInputs,
+  type FieldValue,
+  type SectionErrors,
+  type SectionField,
+  type SectionId,
+} from "@/lib/roi";
+
+// Label with tooltip component
+const LabelWithTooltip = ({ htmlFor, tooltipText, children }: { htmlFor: string; tooltipText: string; children: React.ReactNode }) => {
+  return (
+    <div className="flex items-center gap-1">
+      <Label htmlFor={htmlFor}>{children}</Label>
+      <Tooltip delayDuration={0}>
+        <TooltipTrigger asChild>
+          <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs" side="right">
+          <p className="text-xs">{tooltipText}</p>
+        </TooltipContent>
+      </Tooltip>
+    </div>
+  );
+};
+
+interface SectionFieldsProps {
+  section: SectionId;
+  inputs: CalculatorInputs;
+  onFieldChange: (section: SectionId, field: string, value: FieldValue) => void;
+  // Called when a field's text can't be read as a number, and again with null once it can
+  onFieldError?: (section: SectionId, field: string, error: string | null) => void;
+  errors?: SectionErrors;
+  // Fields still holding a benchmark value rather than one the user entered
+  benchmarkFields?: string[];
+}
+
+// A section's inputs, laid out from its definition; percentages sit two to a row
+const SectionFields: React.FC<SectionFieldsProps> = ({
+  section,
+  inputs,
+  onFieldChange,
+  onFieldError,
+  errors = {},
+  benchmarkFields = [],
+}) => {
+  const { formatNumber } = useMoneyFormat();
+  const { messages } = useMessages();
+  const fields: SectionField[] = (SECTION_DEFINITIONS[section] as AnySectionDefinition).fields;
+  const text = messages.sections[section].fields as Record<string, { label: string; definition: string }>;
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {fields.map((field) => {
+        const id = `${section}-${field.id}`;
+        const value = getFieldValue(inputs, section, field.id);
+        // Only flag fields the user has filled in; empty ones are handled by the Next flow
+        const error = value === '' ? undefined : errors[field.id];
+        return (
+          <div key={field.id} className={cn('space-y-2', field.type !== 'percentage' && 'col-span-2')}>
+            <div className="flex items-center justify-between gap-2">
+              <LabelWithTooltip htmlFor={id} tooltipText={text[field.id].definition}>
+                {text[field.id].label}
+              </LabelWithTooltip>
+              {benchmarkFields.includes(field.id) && (
+                <Badge
+                  variant="outline"
+                  title={messages.benchmarks.badgeHint}
+                  className="px-1.5 py-0 text-[10px] font-medium text-instil-purple border-instil-purple/40"
+                >
+                  {messages.benchmarks.badge}
+                </Badge>
+              )}
+            </div>
+            <NumericInput
+              id={id}
+              currency={field.type === 'money'}
+              suffix={field.type === 'percentage' ? '%' : undefined}
+              placeholder={formatNumber(field.placeholder)}
+              decimals={getFieldDecimals(field.type)}
+              value={value}
+              onValueChange={(next) => onFieldChange(section, field.id, next)}
+              onErrorChange={(next) => onFieldError?.(section, field.id, next)}
+              error={error}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SectionFields;
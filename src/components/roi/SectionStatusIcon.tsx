@@ -0,0 +1,28 @@
+import React from 'react';
+import { CircleAlert, CircleCheck, CircleDashed } from 'lucide-react';
+import { cn } from "@/lib/utils";
+import { useMessages } from "@/hooks/use-messages";
+import type { SectionStatus } from "@/lib/roi";
+
+interface SectionStatusIconProps {
+  status: SectionStatus;
+  className?: string;
+}
+
+// Small cue for a tab trigger; empty sections show nothing so untouched tabs stay quiet
+const SectionStatusIcon: React.FC<SectionStatusIconProps> = ({ status, className }) => {
+  const { messages } = useMessages();
+  if (status === 'empty') return null;
+
+  const Icon = status === 'complete' ? CircleCheck : status === 'invalid' ? CircleAlert : CircleDashed;
+  return (
+    <Icon
+      size={14}
+      role="img"
+      aria-label={messages.sectionStatus[status]}
+      className={cn('shrink-0', status === 'invalid' && 'text-red-500', className)}
+    />
+  );
+};
+
+export default SectionStatusIcon;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ReferenceLine, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis, YAxis } from 'recharts';
+import { Label } from "@/components/ui/label";
+import NumericInput from "@/components/roi/NumericInput";
+import { useMoneyFormat } from "@/hooks/use-money-format";
+import { useMessages } from "@/hooks/use-messages";
+import {
+  analyzeSensitivity,
+  DEFAULT_SENSITIVITY_PERCENT,
+  type CalculatorInputs,
+} from "@/lib/roi";
+
+interface SensitivityPanelProps {
+  inputs: CalculatorInputs;
+}
+
+// Tornado chart showing which single assumption moves the total the most
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ inputs }) => {
+  const { formatCurrency, formatCompactCurrency } = useMoneyFormat();
+  const { messages, t } = useMessages();
+  const [percent, setPercent] = useState(DEFAULT_SENSITIVITY_PERCENT);
+  const analysis = React.useMemo(() => analyzeSensitivity(inputs, percent), [inputs, percent]);
+
+  // Bars extend left and right of the current total, so values are deltas from it
+  const chartData = React.useMemo(
+    () =>
+      analysis.entries
+        .filter((entry) => entry.swing > 0)
+        .map((entry) => ({
+          name: `${(messages.sections[entry.section].fields as Record<string, { label: string }>)[entry.field].label} (${messages.sections[entry.section].tab})`,
+          low: entry.lowTotal - analysis.baseTotal,
+          high: entry.highTotal - analysis.baseTotal,
+        })),
+    [analysis, messages]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-2">
+        <div>
+          <h3 className="text-xs md:text-sm font-semibold">{messages.sensitivity.title}</h3>
+          <p className="text-xs text-gray-600 italic">
+            {t(messages.sensitivity.intro, { percent })}
+          </p>
+        </div>
+        <div className="w-28 space-y-1">
+          <Label htmlFor="sensitivityPercent" className="text-xs">{messages.sensitivity.varyBy}</Label>
+          <NumericInput
+            id="sensitivityPercent"
+            suffix="%"
+            value={percent}
+            onValueChange={(value) => value !== '' && value > 0 && setPercent(Math.min(value, 100))}
+          />
+        </div>
+      </div>
+
+      <div style={{ height: Math.max(160, chartData.length * 28 + 60) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" stackOffset="sign" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" horizontal={false} />
+            <XAxis type="number" tick={{ fontSize: 10 }} tickFormatter={formatCompactCurrency} />
+            <YAxis type="category" dataKey="name" tick={{ fontSize: 10 }} width={170} />
+            <RechartsTooltip
+              formatter={(value: number) => `${value >= 0 ? '+' : '−'}${formatCurrency(Math.abs(value))}`}
+              contentStyle={{ fontSize: 12 }}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <ReferenceLine x={0} stroke="#302661" />
+            <Bar dataKey="low" name={`-${percent}%`} stackId="swing" fill="#AB47BC" />
+            <Bar dataKey="high" name={`+${percent}%`} stackId="swing" fill="#42F2F7" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-[10px] text-gray-500">
+        {t(messages.sensitivity.centered, { total: formatCurrency(analysis.baseTotal) })}
+      </p>
+    </div>
+  );
+};
+
+export default SensitivityPanel;
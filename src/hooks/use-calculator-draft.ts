@@ -0,0 +1,45 @@
+import * as React from "react"
+
+import {
+  clearDraft,
+  loadDraft,
+  saveDraft,
+  type CalculatorDraft,
+  type CalculatorInputs,
+  type SectionId,
+} from "@/lib/roi"
+
+const SAVE_DELAY_MS = 500
+
+interface UseCalculatorDraftOptions {
+  // Skip offering a saved draft, e.g. when a shared link already supplied inputs
+  skipRestore?: boolean
+}
+
+// Debounced persistence of the calculator's inputs to localStorage. A draft found on mount is
+// exposed as `pendingDraft` and nothing is saved until the user resumes or discards it, so
+// the saved session isn't overwritten before they've had the chance to choose.
+export function useCalculatorDraft(
+  inputs: CalculatorInputs,
+  activeTab: SectionId,
+  { skipRestore = false }: UseCalculatorDraftOptions = {}
+) {
+  const [pendingDraft, setPendingDraft] = React.useState<CalculatorDraft | null>(
+    () => (skipRestore ? null : loadDraft())
+  )
+
+  React.useEffect(() => {
+    if (pendingDraft) return
+    const timeout = window.setTimeout(() => saveDraft(inputs, activeTab), SAVE_DELAY_MS)
+    return () => window.clearTimeout(timeout)
+  }, [inputs, activeTab, pendingDraft])
+
+  const dismissDraft = React.useCallback(() => setPendingDraft(null), [])
+
+  const discardDraft = React.useCallback(() => {
+    clearDraft()
+    setPendingDraft(null)
+  }, [])
+
+  return { pendingDraft, dismissDraft, discardDraft, clearDraft }
+}
@@ -0,0 +1,20 @@
+import * as React from "react"
+
+import { DEFAULT_LANGUAGE, formatMessage, getMessages, type Language } from "@/lib/roi"
+
+// Language chosen for the calculator, provided once at the top of the component tree
+export const LanguageContext = React.createContext<Language>(DEFAULT_LANGUAGE)
+
+// Message catalog for the current language, with English filling any gaps
+export function useMessages() {
+  const language = React.useContext(LanguageContext)
+
+  return React.useMemo(
+    () => ({
+      language,
+      messages: getMessages(language),
+      t: formatMessage,
+    }),
+    [language]
+  )
+}
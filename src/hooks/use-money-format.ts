@@ -0,0 +1,30 @@
+import * as React from "react"
+
+import {
+  DEFAULT_MONEY_FORMAT,
+  formatCompactCurrency,
+  formatCurrency,
+  formatNumber,
+  getCurrencyAdornment,
+  type MoneyFormat,
+} from "@/lib/roi"
+
+// Currency and locale chosen for the calculator, provided once at the top of the component tree
+export const MoneyFormatContext = React.createContext<MoneyFormat>(DEFAULT_MONEY_FORMAT)
+
+// Formatters bound to the current currency and locale, plus the symbol placement for money inputs
+export function useMoneyFormat() {
+  const format = React.useContext(MoneyFormatContext)
+
+  return React.useMemo(
+    () => ({
+      format,
+      locale: format.locale,
+      currencyAdornment: getCurrencyAdornment(format),
+      formatCurrency: (value: number) => formatCurrency(value, format),
+      formatCompactCurrency: (value: number) => formatCompactCurrency(value, format),
+      formatNumber: (value: number, maxFractionDigits?: number) => formatNumber(value, format, maxFractionDigits),
+    }),
+    [format]
+  )
+}
@@ -0,0 +1,42 @@
+import * as React from "react"
+
+import {
+  createScenario,
+  loadScenarios,
+  saveScenarios,
+  type CalculatorInputs,
+  type MoneyFormat,
+  type SavedScenario,
+} from "@/lib/roi"
+
+// Named scenarios kept in localStorage so a range of assumptions survives reloads
+export function useSavedScenarios() {
+  const [scenarios, setScenarios] = React.useState<SavedScenario[]>(loadScenarios)
+
+  const update = React.useCallback((updater: (prev: SavedScenario[]) => SavedScenario[]) => {
+    setScenarios((prev) => {
+      const next = updater(prev)
+      saveScenarios(next)
+      return next
+    })
+  }, [])
+
+  // Saving under an existing name replaces that scenario in place
+  const addScenario = React.useCallback(
+    (name: string, inputs: CalculatorInputs, format: MoneyFormat) =>
+      update((prev) => {
+        const scenario = createScenario(name, inputs, format)
+        const index = prev.findIndex((existing) => existing.name === name)
+        if (index === -1) return [...prev, scenario]
+        return prev.map((existing, i) => (i === index ? { ...scenario, id: existing.id } : existing))
+      }),
+    [update]
+  )
+
+  const removeScenario = React.useCallback(
+    (id: string) => update((prev) => prev.filter((scenario) => scenario.id !== id)),
+    [update]
+  )
+
+  return { scenarios, addScenario, removeScenario }
+}
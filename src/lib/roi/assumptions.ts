@@ -0,0 +1,30 @@
+import type { AssumptionField, AssumptionInputs, CalculatorInputs, FieldValue, ResolvedAssumptions } from './types';
+
+// Standard full-time working year with salary as the only cost
+export const DEFAULT_ASSUMPTIONS: ResolvedAssumptions = {
+  annualHours: 2080,
+  weeksPerYear: 52,
+  overheadLoad: 0,
+};
+
+export const ASSUMPTION_FIELDS: AssumptionField[] = ['annualHours', 'weeksPerYear', 'overheadLoad'];
+
+// Fill any empty assumption with its default
+export const resolveAssumptions = (assumptions: AssumptionInputs): ResolvedAssumptions => ({
+  annualHours: assumptions.annualHours === '' ? DEFAULT_ASSUMPTIONS.annualHours : assumptions.annualHours,
+  weeksPerYear: assumptions.weeksPerYear === '' ? DEFAULT_ASSUMPTIONS.weeksPerYear : assumptions.weeksPerYear,
+  overheadLoad: assumptions.overheadLoad === '' ? DEFAULT_ASSUMPTIONS.overheadLoad : assumptions.overheadLoad,
+});
+
+// Hourly cost of a salary once benefits and overhead are added
+export const loadedHourlyRate = (annualSalary: FieldValue, assumptions: ResolvedAssumptions): number => {
+  return (Number(annualSalary) * (1 + assumptions.overheadLoad / 100)) / assumptions.annualHours;
+};
+
+export const setAssumption = (inputs: CalculatorInputs, field: AssumptionField, value: FieldValue): CalculatorInputs => ({
+  ...inputs,
+  assumptions: {
+    ...inputs.assumptions,
+    [field]: value,
+  },
+});
@@ -0,0 +1,122 @@
+import { getFieldValue, SECTION_FIELDS, SECTION_IDS, setFieldValue } from './calculate';
+import type { CurrencyCode } from './currency';
+import { getSectionField } from './sections';
+import type { CalculatorInputs, SectionId } from './types';
+
+export type OrganizationSize = 'small' | 'medium' | 'large';
+export type Sector = 'higherEd' | 'healthcare' | 'arts' | 'humanServices';
+
+export const ORGANIZATION_SIZES: OrganizationSize[] = ['small', 'medium', 'large'];
+export const SECTORS: Sector[] = ['higherEd', 'healthcare', 'arts', 'humanServices'];
+
+// The organization profile a set of benchmark values is picked for
+export interface BenchmarkPreset {
+  size: OrganizationSize;
+  sector: Sector;
+  // Currency the money values were filled in with
+  currency: CurrencyCode;
+}
+
+// A value for every field of every section
+export type BenchmarkValues = { [K in SectionId]: Record<keyof CalculatorInputs[K], number> };
+
+// Typical values by organization size, in US dollars, before the sector and currency adjustments
+const SIZE_BENCHMARKS: Record<OrganizationSize, BenchmarkValues> = {
+  small: {
+    adminWaste: { numberOfMGOs: 2, annualSalary: 75000, hoursPerWeek: 8 },
+    siloedCollaboration: { annualSalary: 60000, hoursWasted: 4, numberOfUsers: 4 },
+    grantReporting: { activeGrants: 10, reportsPerGrant: 2, hoursPerReport: 12, annualSalary: 60000 },
+    missedUpgrades: { upgradableDonors: 40, averageGiftSize: 2500, upgradePercentage: 20, realizationRate: 40 },
+    donorLapse: { lapsedDonors: 8, averageGift: 2000, numberOfPortfolios: 2 },
+    staffTurnover: { numberOfMGOs: 2, turnoverRate: 25, monthsToRamp: 9, recruitingCost: 15000, portfolioRevenue: 300000 },
+    pipelineConversion: { ratedProspects: 100, firstGiftAverage: 2500, qualificationImprovement: 10, closeRate: 20 },
+  },
+  medium: {
+    adminWaste: { numberOfMGOs: 5, annualSalary: 95000, hoursPerWeek: 10 },
+    siloedCollaboration: { annualSalary: 70000, hoursWasted: 5, numberOfUsers: 10 },
+    grantReporting: { activeGrants: 25, reportsPerGrant: 2, hoursPerReport: 16, annualSalary: 70000 },
+    missedUpgrades: { upgradableDonors: 120, averageGiftSize: 5000, upgradePercentage: 25, realizationRate: 50 },
+    donorLapse: { lapsedDonors: 12, averageGift: 5000, numberOfPortfolios: 5 },
+    staffTurnover: { numberOfMGOs: 5, turnoverRate: 22, monthsToRamp: 12, recruitingCost: 25000, portfolioRevenue: 1000000 },
+    pipelineConversion: { ratedProspects: 400, firstGiftAverage: 5000, qualificationImprovement: 10, closeRate: 20 },
+  },
+  large: {
+    adminWaste: { numberOfMGOs: 12, annualSalary: 120000, hoursPerWeek: 12 },
+    siloedCollaboration: { annualSalary: 85000, hoursWasted: 6, numberOfUsers: 25 },
+    grantReporting: { activeGrants: 60, reportsPerGrant: 3, hoursPerReport: 20, annualSalary: 80000 },
+    missedUpgrades: { upgradableDonors: 400, averageGiftSize: 10000, upgradePercentage: 25, realizationRate: 50 },
+    donorLapse: { lapsedDonors: 15, averageGift: 10000, numberOfPortfolios: 12 },
+    staffTurnover: { numberOfMGOs: 12, turnoverRate: 18, monthsToRamp: 15, recruitingCost: 40000, portfolioRevenue: 2500000 },
+    pipelineConversion: { ratedProspects: 1500, firstGiftAverage: 10000, qualificationImprovement: 10, closeRate: 25 },
+  },
+};
+
+// How each sector's pay and gift sizes compare with the all-sector figures above
+const SECTOR_FACTORS: Record<Sector, { salary: number; giving: number }> = {
+  higherEd: { salary: 1.05, giving: 1.3 },
+  healthcare: { salary: 1.1, giving: 1.2 },
+  arts: { salary: 0.9, giving: 0.8 },
+  humanServices: { salary: 0.85, giving: 0.7 },
+};
+
+// Roughly what a US dollar figure comes to in each currency, so benchmarks read as local amounts
+const CURRENCY_FACTORS: Record<CurrencyCode, number> = {
+  USD: 1,
+  CAD: 1.35,
+  GBP: 0.8,
+  AUD: 1.5,
+};
+
+// Money fields that are staff costs; every other money field is an amount raised
+const STAFF_COST_FIELDS = ['annualSalary', 'recruitingCost'];
+
+// Benchmark values for an organization profile; money is rounded so it reads like an estimate
+export const getBenchmarkValues = ({ size, sector, currency }: BenchmarkPreset): BenchmarkValues => {
+  const factors = SECTOR_FACTORS[sector];
+  const rate = CURRENCY_FACTORS[currency];
+  return Object.fromEntries(
+    SECTION_IDS.map((section) => {
+      const values = SIZE_BENCHMARKS[size][section] as Record<string, number>;
+      const adjusted = Object.entries(values).map(([field, value]) => {
+        if (getSectionField(section, field)?.type !== 'money') return [field, value];
+        return STAFF_COST_FIELDS.includes(field)
+          ? [field, Math.round((value * factors.salary * rate) / 1000) * 1000]
+          : [field, Math.round((value * factors.giving * rate) / 100) * 100];
+      });
+      return [section, Object.fromEntries(adjusted)];
+    })
+  ) as BenchmarkValues;
+};
+
+const getBenchmarkValue = (values: BenchmarkValues, section: SectionId, field: string): number =>
+  (values[section] as Record<string, number>)[field];
+
+// Fill in a preset's values, keeping anything the user typed. Fields that are empty or still hold
+// the previous preset's value are replaced, so switching presets doesn't leave a mix of the two.
+export const applyBenchmark = (
+  inputs: CalculatorInputs,
+  preset: BenchmarkPreset,
+  previous: BenchmarkPreset | null = null
+): CalculatorInputs => {
+  const next = getBenchmarkValues(preset);
+  const replaced = previous ? getBenchmarkValues(previous) : null;
+  let result = inputs;
+  for (const section of SECTION_IDS) {
+    for (const field of SECTION_FIELDS[section] as string[]) {
+      const value = getFieldValue(inputs, section, field);
+      if (value === '' || (replaced && value === getBenchmarkValue(replaced, section, field))) {
+        result = setFieldValue(result, section, field, getBenchmarkValue(next, section, field));
+      }
+    }
+  }
+  return result;
+};
+
+// Fields of a section still holding the preset's value, as opposed to one the user entered
+export const getBenchmarkFields = (inputs: CalculatorInputs, section: SectionId, preset: BenchmarkPreset | null): string[] => {
+  if (!preset) return [];
+  const values = getBenchmarkValues(preset);
+  return (SECTION_FIELDS[section] as string[]).filter(
+    (field) => getFieldValue(inputs, section, field) === getBenchmarkValue(values, section, field)
+  );
+};
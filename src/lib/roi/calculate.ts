@@ -0,0 +1,103 @@
+import { DEFAULT_ASSUMPTIONS, resolveAssumptions } from './assumptions';
+import { getSectionDefinition, SECTION_DEFINITIONS } from './sections';
+import type { CalculatorInputs, FieldValue, ImpactBreakdown, ImpactCategory, SectionId } from './types';
+
+// Sections in the order they are presented to the user
+export const SECTION_IDS = Object.keys(SECTION_DEFINITIONS) as SectionId[];
+
+// Sections added since launch, oldest first. New sections may be slotted in anywhere, but
+// existing ones must keep their relative order so older links and files still line up.
+const ADDED_SECTION_IDS: SectionId[] = ['grantReporting', 'staffTurnover', 'pipelineConversion'];
+
+// Sections as they were before the given one was added, for reading links and files saved then
+export const sectionsBefore = (added: SectionId): SectionId[] => {
+  const later = ADDED_SECTION_IDS.slice(ADDED_SECTION_IDS.indexOf(added));
+  return SECTION_IDS.filter((id) => !later.includes(id));
+};
+
+// Input fields of each section, in display order
+export const SECTION_FIELDS = Object.fromEntries(
+  SECTION_IDS.map((id) => [id, SECTION_DEFINITIONS[id].fields.map((field) => field.id)])
+) as { [K in SectionId]: (keyof CalculatorInputs[K])[] };
+
+// Which results category each section rolls up into
+export const SECTION_CATEGORIES = Object.fromEntries(
+  SECTION_IDS.map((id) => [id, SECTION_DEFINITIONS[id].category])
+) as Record<SectionId, ImpactCategory>;
+
+// Results categories in the order they are presented
+export const IMPACT_CATEGORIES: ImpactCategory[] = ['wastedSalarySpend', 'opportunityCost'];
+
+// A section is complete once none of its fields are empty
+export const isSectionComplete = (inputs: CalculatorInputs, section: SectionId): boolean => {
+  return Object.values(inputs[section]).every((value) => value !== '');
+};
+
+export const areAllSectionsComplete = (inputs: CalculatorInputs): boolean => {
+  return SECTION_IDS.every((section) => isSectionComplete(inputs, section));
+};
+
+export const getFieldValue = (inputs: CalculatorInputs, section: SectionId, field: string): FieldValue => {
+  return (inputs[section] as unknown as Record<string, FieldValue>)[field];
+};
+
+// Immutably replace a single field value
+export const setFieldValue = (
+  inputs: CalculatorInputs,
+  section: SectionId,
+  field: string,
+  value: FieldValue
+): CalculatorInputs => ({
+  ...inputs,
+  [section]: {
+    ...inputs[section],
+    [field]: value,
+  },
+});
+
+// Roll rounded section results up into category subtotals and a grand total
+export const summarizeSections = (sections: Record<SectionId, number>): ImpactBreakdown => {
+  const sumCategory = (category: ImpactCategory) =>
+    SECTION_IDS
+      .filter((id) => SECTION_CATEGORIES[id] === category)
+      .reduce((sum, id) => sum + sections[id], 0);
+
+  const wastedSalarySpend = sumCategory('wastedSalarySpend');
+  const opportunityCost = sumCategory('opportunityCost');
+
+  return {
+    sections,
+    wastedSalarySpend,
+    opportunityCost,
+    total: wastedSalarySpend + opportunityCost,
+  };
+};
+
+// Run every formula and roll the rounded section results up into category subtotals and a total
+export const computeImpacts = (inputs: CalculatorInputs): ImpactBreakdown => {
+  const assumptions = resolveAssumptions(inputs.assumptions);
+  const calculateSection = <K extends SectionId>(id: K) =>
+    Math.round(getSectionDefinition(id).calculate(inputs[id], assumptions));
+  return summarizeSections(
+    Object.fromEntries(SECTION_IDS.map((id) => [id, calculateSection(id)])) as Record<SectionId, number>
+  );
+};
+
+// Impacts counting only the given sections, e.g. those filled in so far; the rest count as zero
+export const computePartialImpacts = (inputs: CalculatorInputs, included: SectionId[]): ImpactBreakdown => {
+  const { sections } = computeImpacts(inputs);
+  return summarizeSections(
+    Object.fromEntries(SECTION_IDS.map((id) => [id, included.includes(id) ? sections[id] : 0])) as Record<SectionId, number>
+  );
+};
+
+// Blank form state with every field empty
+export const createEmptyInputs = (): CalculatorInputs => ({
+  ...(Object.fromEntries(
+    SECTION_IDS.map((id) => [id, Object.fromEntries(SECTION_DEFINITIONS[id].fields.map((field) => [field.id, '']))])
+  ) as Omit<CalculatorInputs, 'assumptions'>),
+  assumptions: { ...DEFAULT_ASSUMPTIONS },
+});
+
+// Breakdown with every figure at zero, used before anything has been calculated
+export const createEmptyImpacts = (): ImpactBreakdown => computeImpacts(createEmptyInputs());
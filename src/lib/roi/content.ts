@@ -0,0 +1,22 @@
+import { FIELD_TYPE_UNITS, SECTION_DEFINITIONS, type AnySectionDefinition } from './sections';
+import type { AssumptionField, CalculatorInputs, SectionId } from './types';
+
+// How a field's value should be displayed
+export type FieldUnit = 'count' | 'currency' | 'hours' | 'percent';
+
+const mapSectionDefinitions = <T>(pick: (section: AnySectionDefinition) => T): Record<SectionId, T> =>
+  Object.fromEntries(
+    (Object.values(SECTION_DEFINITIONS) as AnySectionDefinition[]).map((section) => [section.id, pick(section)])
+  ) as Record<SectionId, T>;
+
+export const SECTION_COLORS: Record<SectionId, string> = mapSectionDefinitions((section) => section.color);
+
+export const FIELD_UNITS = mapSectionDefinitions((section) =>
+  Object.fromEntries(section.fields.map((field) => [field.id, FIELD_TYPE_UNITS[field.type]]))
+) as { [K in SectionId]: Record<keyof CalculatorInputs[K], FieldUnit> };
+
+export const ASSUMPTION_UNITS: Record<AssumptionField, FieldUnit> = {
+  annualHours: 'hours',
+  weeksPerYear: 'count',
+  overheadLoad: 'percent',
+};
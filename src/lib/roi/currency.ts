@@ -0,0 +1,85 @@
+export type CurrencyCode = 'USD' | 'CAD' | 'GBP' | 'AUD';
+
+// Currency for money values, and the locale that decides grouping, decimal marks and symbol placement
+export interface MoneyFormat {
+  currency: CurrencyCode;
+  locale: string;
+}
+
+export interface CurrencyOption {
+  code: CurrencyCode;
+  name: string;
+  // Locale used when only the currency is chosen
+  defaultLocale: string;
+}
+
+export interface LocaleOption {
+  id: string;
+  name: string;
+}
+
+export const CURRENCIES: CurrencyOption[] = [
+  { code: 'USD', name: 'US Dollar', defaultLocale: 'en-US' },
+  { code: 'CAD', name: 'Canadian Dollar', defaultLocale: 'en-CA' },
+  { code: 'GBP', name: 'British Pound', defaultLocale: 'en-GB' },
+  { code: 'AUD', name: 'Australian Dollar', defaultLocale: 'en-AU' },
+];
+
+export const LOCALES: LocaleOption[] = [
+  { id: 'en-US', name: 'English (United States)' },
+  { id: 'en-CA', name: 'English (Canada)' },
+  { id: 'fr-CA', name: 'Français (Canada)' },
+  { id: 'en-GB', name: 'English (United Kingdom)' },
+  { id: 'en-AU', name: 'English (Australia)' },
+];
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = { currency: 'USD', locale: 'en-US' };
+
+// Query parameters that preselect the currency and number format, e.g. for embeds
+export const CURRENCY_PARAM = 'currency';
+export const LOCALE_PARAM = 'locale';
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  CURRENCIES.some((currency) => currency.code === value);
+
+export const isSupportedLocale = (value: unknown): value is string => LOCALES.some((locale) => locale.id === value);
+
+export const getCurrency = (code: CurrencyCode): CurrencyOption =>
+  CURRENCIES.find((currency) => currency.code === code) ?? CURRENCIES[0];
+
+// Unknown values are ignored; a currency on its own brings its usual locale with it
+export const readMoneyFormatFromSearch = (search: string): MoneyFormat => {
+  const params = new URLSearchParams(search);
+  const currencyParam = params.get(CURRENCY_PARAM)?.toUpperCase();
+  const localeParam = params.get(LOCALE_PARAM);
+
+  const currency = isCurrencyCode(currencyParam) ? currencyParam : DEFAULT_MONEY_FORMAT.currency;
+  const locale = isSupportedLocale(localeParam)
+    ? localeParam
+    : isCurrencyCode(currencyParam)
+      ? getCurrency(currency).defaultLocale
+      : DEFAULT_MONEY_FORMAT.locale;
+  return { currency, locale };
+};
+
+// Add the format to a URL's query, leaving it out when it's the default
+export const applyMoneyFormatToUrl = (url: URL, format: MoneyFormat): void => {
+  const isDefault = format.currency === DEFAULT_MONEY_FORMAT.currency && format.locale === DEFAULT_MONEY_FORMAT.locale;
+  if (isDefault) {
+    url.searchParams.delete(CURRENCY_PARAM);
+    url.searchParams.delete(LOCALE_PARAM);
+    return;
+  }
+  url.searchParams.set(CURRENCY_PARAM, format.currency);
+  url.searchParams.set(LOCALE_PARAM, format.locale);
+};
+
+// The currency symbol and which side of the number it goes on, e.g. "$" before in en-US
+// and after in fr-CA ("1 234 $")
+export const getCurrencyAdornment = (format: MoneyFormat): { prefix?: string; suffix?: string } => {
+  const parts = new Intl.NumberFormat(format.locale, { style: 'currency', currency: format.currency }).formatToParts(1);
+  const symbolIndex = parts.findIndex((part) => part.type === 'currency');
+  const numberIndex = parts.findIndex((part) => part.type === 'integer');
+  const symbol = parts[symbolIndex]?.value ?? format.currency;
+  return symbolIndex < numberIndex ? { prefix: symbol } : { suffix: symbol };
+};
@@ -0,0 +1,68 @@
+import { resolveAssumptions } from './assumptions';
+import { computeImpacts, getFieldValue } from './calculate';
+import { FIELD_UNITS, type FieldUnit } from './content';
+import { DEFAULT_MONEY_FORMAT, type MoneyFormat } from './currency';
+import { formatMessage, type Messages } from './i18n';
+import { formatCurrency, formatNumber } from './number';
+import { getSectionDefinition, type ExplainContext } from './sections';
+import type { CalculatorInputs, FieldValue, ResolvedAssumptions, SectionId } from './types';
+
+export interface SectionExplanation {
+  // The section's formula with the user's values substituted, e.g. "$125,000 / 2,080 × 15 × 52 × 4 = $187,500"
+  formula: string;
+  // Plain-language statement of what the formula assumes
+  assumption: string;
+}
+
+// Display a field value with its unit, e.g. "$125,000" or "50%"
+export const formatFieldDisplay = (value: FieldValue, unit: FieldUnit, format: MoneyFormat = DEFAULT_MONEY_FORMAT): string => {
+  if (value === '') return '—';
+  switch (unit) {
+    case 'currency':
+      return formatCurrency(value, format);
+    case 'percent':
+      return `${formatNumber(value, format)}%`;
+    default:
+      return formatNumber(value, format);
+  }
+};
+
+// "$125,000 / 2,080", or "$125,000 × 1.3 / 2,080" once benefits and overhead are loaded on
+const hourlyRate = (salary: string, assumptions: ResolvedAssumptions, format: MoneyFormat) => {
+  const load = assumptions.overheadLoad > 0 ? ` × ${formatNumber(1 + assumptions.overheadLoad / 100, format)}` : '';
+  return `${salary}${load} / ${formatNumber(assumptions.annualHours, format)}`;
+};
+
+// "Salary is converted to an hourly rate over a 2,080-hour working year", naming the load when there is one
+const rateAssumption = (assumptions: ResolvedAssumptions, messages: Messages, format: MoneyFormat) => {
+  const hours = formatNumber(assumptions.annualHours, format);
+  return assumptions.overheadLoad > 0
+    ? formatMessage(messages.assumptions.loadedHourlyRate, { load: formatNumber(assumptions.overheadLoad, format), hours })
+    : formatMessage(messages.assumptions.hourlyRate, { hours });
+};
+
+// Show how a section's result was reached using the user's own numbers
+export const explainSection = (
+  inputs: CalculatorInputs,
+  section: SectionId,
+  messages: Messages,
+  format: MoneyFormat = DEFAULT_MONEY_FORMAT
+): SectionExplanation => {
+  const assumptions = resolveAssumptions(inputs.assumptions);
+  const field = (key: string) =>
+    formatFieldDisplay(getFieldValue(inputs, section, key), (FIELD_UNITS[section] as Record<string, FieldUnit>)[key], format);
+  const weeks = formatNumber(assumptions.weeksPerYear, format);
+  const context: ExplainContext = {
+    field,
+    hourlyRate: (key) => hourlyRate(field(key), assumptions, format),
+    weeks,
+    result: formatCurrency(computeImpacts(inputs).sections[section], format),
+  };
+  return {
+    formula: getSectionDefinition(section).formula(context),
+    assumption: formatMessage(messages.sections[section].assumption, {
+      rate: rateAssumption(assumptions, messages, format),
+      weeks,
+    }),
+  };
+};
@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import { ASSUMPTION_FIELDS, setAssumption } from './assumptions';
+import {
+  computeImpacts,
+  createEmptyInputs,
+  getFieldValue,
+  SECTION_FIELDS,
+  SECTION_IDS,
+  sectionsBefore,
+  setFieldValue,
+} from './calculate';
+import { DEFAULT_MONEY_FORMAT, isCurrencyCode, isSupportedLocale, type MoneyFormat } from './currency';
+import { formatMessage, type Messages } from './i18n';
+import { en } from './messages/en';
+import type { AssumptionField, CalculatorInputs, FieldValue, ImpactBreakdown, SectionId } from './types';
+
+// Identifies files written by this tool, and the layout of their contents
+export const SCENARIO_FILE_FORMAT = 'instil-roi-scenario';
+export const SCENARIO_FILE_VERSION = 5;
+
+// Sections each file version carries; sections added since then import empty.
+// Version 1 files also predate configurable assumptions and import with the defaults.
+const FILE_SECTIONS: Record<number, SectionId[]> = {
+  1: sectionsBefore('grantReporting'),
+  2: sectionsBefore('grantReporting'),
+  3: sectionsBefore('staffTurnover'),
+  4: sectionsBefore('pipelineConversion'),
+  [SCENARIO_FILE_VERSION]: SECTION_IDS,
+};
+const SUPPORTED_FILE_VERSIONS = Object.keys(FILE_SECTIONS).map(Number);
+const fileSections = (version: unknown): SectionId[] =>
+  typeof version === 'number' && SUPPORTED_FILE_VERSIONS.includes(version) ? FILE_SECTIONS[version] : SECTION_IDS;
+
+export interface ScenarioFile {
+  format: typeof SCENARIO_FILE_FORMAT;
+  version: typeof SCENARIO_FILE_VERSION;
+  exportedAt: string;
+  // Currency the money values are in, and the locale they were entered with
+  currency: MoneyFormat['currency'];
+  locale: string;
+  // Empty fields are written as null
+  inputs: { [K in SectionId]: Record<keyof CalculatorInputs[K], number | null> };
+  assumptions: Record<AssumptionField, number | null>;
+  impacts: ImpactBreakdown;
+}
+
+export interface ScenarioImportResult {
+  inputs: CalculatorInputs | null;
+  // Only set when the file records a supported currency
+  format: MoneyFormat | null;
+  error: string | null;
+}
+
+const fieldPairs = (sections: SectionId[] = SECTION_IDS) =>
+  sections.flatMap((section) => (SECTION_FIELDS[section] as string[]).map((field) => [section, field] as const));
+
+const toFileValue = (value: FieldValue) => (value === '' ? null : value);
+
+const createScenarioFileSchema = ({ files: f, validation: m }: Messages) => {
+  const fileValue = z
+    .number({ invalid_type_error: m.invalidNumber })
+    .finite(m.invalidNumber)
+    .nonnegative(m.notNegative)
+    .nullable();
+  return z
+    .object({
+      format: z.literal(SCENARIO_FILE_FORMAT, { errorMap: () => ({ message: f.notScenarioFile }) }),
+      version: z.number({ invalid_type_error: m.invalidNumber }).refine((version) => SUPPORTED_FILE_VERSIONS.includes(version), {
+        message: formatMessage(f.unsupportedVersion, { versions: SUPPORTED_FILE_VERSIONS.join(', ') }),
+      }),
+      // Which sections must be present depends on the version, checked below
+      inputs: z.object(
+        Object.fromEntries(
+          SECTION_IDS.map((section) => [
+            section,
+            z.object(Object.fromEntries((SECTION_FIELDS[section] as string[]).map((field) => [field, fileValue]))).optional(),
+          ])
+        ),
+        { required_error: m.required }
+      ),
+      assumptions: z.object(Object.fromEntries(ASSUMPTION_FIELDS.map((field) => [field, fileValue.optional()]))).optional(),
+      // Files from before currencies were selectable have neither field
+      currency: z.string().refine(isCurrencyCode, { message: f.unsupportedCurrency }).optional(),
+      locale: z.string().optional(),
+    })
+    .superRefine((file, ctx) => {
+      for (const section of fileSections(file.version)) {
+        if (file.inputs[section] === undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.invalid_type,
+            expected: 'object',
+            received: 'undefined',
+            path: ['inputs', section],
+            message: m.required,
+          });
+        }
+      }
+    });
+};
+
+type FileAssumptions = Partial<Record<AssumptionField, number | null>> | undefined;
+
+const describeIssue = (error: z.ZodError): string => {
+  const [issue] = error.issues;
+  const path = issue.path.join('.');
+  return path && issue.code !== 'invalid_literal' && issue.code !== 'custom' ? `${path}: ${issue.message}` : issue.message;
+};
+
+// Missing sections and assumptions keep their defaults; null values are left empty, which for assumptions also means the default
+const fromFileInputs = (values: Record<string, Record<string, number | null>>, assumptions: FileAssumptions): CalculatorInputs => {
+  let inputs = createEmptyInputs();
+  for (const [section, field] of fieldPairs()) {
+    const value = values[section]?.[field];
+    if (value !== undefined) inputs = setFieldValue(inputs, section, field, value === null ? '' : value);
+  }
+  for (const field of ASSUMPTION_FIELDS) {
+    const value = assumptions?.[field];
+    if (value !== undefined) inputs = setAssumption(inputs, field, value === null ? '' : value);
+  }
+  return inputs;
+};
+
+// The currency recorded in a file, with the locale falling back to the default when it isn't supported
+const fromFileFormat = (currency: string | undefined, locale: string | undefined): MoneyFormat | null => {
+  if (!isCurrencyCode(currency)) return null;
+  return { currency, locale: isSupportedLocale(locale) ? locale : DEFAULT_MONEY_FORMAT.locale };
+};
+
+export const toScenarioFile = (
+  inputs: CalculatorInputs,
+  format: MoneyFormat = DEFAULT_MONEY_FORMAT,
+  exportedAt = new Date()
+): ScenarioFile => ({
+  format: SCENARIO_FILE_FORMAT,
+  version: SCENARIO_FILE_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  currency: format.currency,
+  locale: format.locale,
+  inputs: Object.fromEntries(
+    SECTION_IDS.map((section) => [
+      section,
+      Object.fromEntries((SECTION_FIELDS[section] as string[]).map((field) => [field, toFileValue(getFieldValue(inputs, section, field))])),
+    ])
+  ) as ScenarioFile['inputs'],
+  assumptions: Object.fromEntries(
+    ASSUMPTION_FIELDS.map((field) => [field, toFileValue(inputs.assumptions[field])])
+  ) as ScenarioFile['assumptions'],
+  impacts: computeImpacts(inputs),
+});
+
+export const exportScenarioJson = (inputs: CalculatorInputs, format: MoneyFormat = DEFAULT_MONEY_FORMAT): string =>
+  JSON.stringify(toScenarioFile(inputs, format), null, 2);
+
+// A header row and a single data row, so exports from many assessments can be stacked in one spreadsheet
+export const exportScenarioCsv = (inputs: CalculatorInputs, format: MoneyFormat = DEFAULT_MONEY_FORMAT): string => {
+  const file = toScenarioFile(inputs, format);
+  const columns: [string, string | number | null][] = [
+    ['format', file.format],
+    ['version', file.version],
+    ['exportedAt', file.exportedAt],
+    ['currency', file.currency],
+    ['locale', file.locale],
+    ...fieldPairs().map(([section, field]): [string, number | null] => [
+      `${section}.${field}`,
+      toFileValue(getFieldValue(inputs, section, field)),
+    ]),
+    ...ASSUMPTION_FIELDS.map((field): [string, number | null] => [`assumptions.${field}`, file.assumptions[field]]),
+    ...SECTION_IDS.map((section): [string, number] => [`impact.${section}`, file.impacts.sections[section]]),
+    ['impact.wastedSalarySpend', file.impacts.wastedSalarySpend],
+    ['impact.opportunityCost', file.impacts.opportunityCost],
+    ['impact.total', file.impacts.total],
+  ];
+
+  const header = columns.map(([name]) => name).join(',');
+  const row = columns.map(([, value]) => (value === null ? '' : String(value))).join(',');
+  return `${header}\n${row}\n`;
+};
+
+export const importScenarioJson = (text: string, messages: Messages = en): ScenarioImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { inputs: null, format: null, error: messages.files.invalidJson };
+  }
+
+  const result = createScenarioFileSchema(messages).safeParse(data);
+  if (!result.success) return { inputs: null, format: null, error: describeIssue(result.error) };
+  return {
+    inputs: fromFileInputs(result.data.inputs as Record<string, Record<string, number | null>>, result.data.assumptions as FileAssumptions),
+    format: fromFileFormat(result.data.currency, result.data.locale),
+    error: null,
+  };
+};
+
+const splitCsvLine = (line: string): string[] =>
+  line.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+// Reads the first data row; impact columns are ignored and recalculated from the inputs
+export const importScenarioCsv = (text: string, messages: Messages = en): ScenarioImportResult => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length < 2) return { inputs: null, format: null, error: messages.files.needsRows };
+
+  const header = splitCsvLine(lines[0]);
+  const row = splitCsvLine(lines[1]);
+  const cell = (name: string) => {
+    const index = header.indexOf(name);
+    return index === -1 ? undefined : row[index];
+  };
+
+  const toNumber = (value: string | undefined) => (value === undefined || value === '' ? null : Number(value));
+  const version = toNumber(cell('version'));
+  const sections = fileSections(version);
+
+  const missing = fieldPairs(sections).map(([section, field]) => `${section}.${field}`).filter((name) => cell(name) === undefined);
+  if (missing.length > 0) {
+    return { inputs: null, format: null, error: formatMessage(messages.files.missingColumn, { column: missing[0] }) };
+  }
+
+  const values = Object.fromEntries(
+    sections.map((section) => [
+      section,
+      Object.fromEntries((SECTION_FIELDS[section] as string[]).map((field) => [field, toNumber(cell(`${section}.${field}`))])),
+    ])
+  );
+
+  // Assumption columns are optional so version 1 exports still import
+  const assumptions = Object.fromEntries(
+    ASSUMPTION_FIELDS.filter((field) => cell(`assumptions.${field}`) !== undefined).map((field) => [
+      field,
+      toNumber(cell(`assumptions.${field}`)),
+    ])
+  );
+
+  // Same checks as a JSON file, so both formats accept exactly the same scenarios
+  const result = createScenarioFileSchema(messages).safeParse({
+    format: cell('format'),
+    version,
+    inputs: values,
+    assumptions,
+    currency: cell('currency') || undefined,
+    locale: cell('locale') || undefined,
+  });
+  if (!result.success) return { inputs: null, format: null, error: describeIssue(result.error) };
+  return {
+    inputs: fromFileInputs(result.data.inputs as Record<string, Record<string, number | null>>, result.data.assumptions as FileAssumptions),
+    format: fromFileFormat(result.data.currency, result.data.locale),
+    error: null,
+  };
+};
+
+// Pick the parser from the file name, falling back to sniffing the content
+export const importScenarioFile = (fileName: string, text: string, messages: Messages = en): ScenarioImportResult => {
+  const isJson = /\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && text.trim().startsWith('{'));
+  return isJson ? importScenarioJson(text, messages) : importScenarioCsv(text, messages);
+};
+
+export const SCENARIO_FILE_BASENAME = 'instil-roi-scenario';
+
+// Hand generated text to the browser as a file download
+export const downloadTextFile = (content: string, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,77 @@
+import { en } from './messages/en';
+import { es } from './messages/es';
+import { fr } from './messages/fr';
+
+export type Messages = typeof en;
+export type ValidationMessages = Messages['validation'];
+
+// Every message is optional in a translation; missing ones fall back to English
+export type PartialMessages = {
+  [K in keyof Messages]?: Messages[K] extends string ? string : DeepPartial<Messages[K]>;
+};
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends string ? string : DeepPartial<T[K]> };
+
+export type Language = 'en' | 'fr' | 'es';
+
+export interface LanguageOption {
+  id: Language;
+  // Each language's name in that language, so it can be found by people who don't read the current one
+  name: string;
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { id: 'en', name: 'English' },
+  { id: 'fr', name: 'Français' },
+  { id: 'es', name: 'Español' },
+];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// Query parameter that picks the language, e.g. for embeds on partner sites
+export const LANG_PARAM = 'lang';
+
+const CATALOGS: Record<Language, PartialMessages> = { en, fr, es };
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.some((language) => language.id === value);
+
+// Region subtags are ignored, so "fr-CA" and "es-MX" pick French and Spanish
+export const readLanguageFromSearch = (search: string): Language => {
+  const param = new URLSearchParams(search).get(LANG_PARAM)?.toLowerCase().split(/[-_]/)[0];
+  return isLanguage(param) ? param : DEFAULT_LANGUAGE;
+};
+
+// Add the language to a URL's query, leaving it out when it's the default
+export const applyLanguageToUrl = (url: URL, language: Language): void => {
+  if (language === DEFAULT_LANGUAGE) url.searchParams.delete(LANG_PARAM);
+  else url.searchParams.set(LANG_PARAM, language);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mergeMessages = <T>(base: T, overrides: unknown): T => {
+  if (!isObject(overrides) || !isObject(base)) return base;
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, fallback] of Object.entries(base)) {
+    const override = overrides[key];
+    if (isObject(fallback)) merged[key] = mergeMessages(fallback, override);
+    else if (typeof override === 'string' && override !== '') merged[key] = override;
+  }
+  return merged as T;
+};
+
+const cache = new Map<Language, Messages>();
+
+// Full message set for a language, with English filling any gaps
+export const getMessages = (language: Language): Messages => {
+  let messages = cache.get(language);
+  if (!messages) {
+    messages = mergeMessages(en, CATALOGS[language]);
+    cache.set(language, messages);
+  }
+  return messages;
+};
+
+// Fill "{name}" placeholders; unknown placeholders are left as written
+export const formatMessage = (template: string, values: Record<string, string | number> = {}): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
@@ -0,0 +1,21 @@
+export * from './types';
+export * from './assumptions';
+export * from './sections';
+export * from './calculate';
+export * from './share';
+export * from './storage';
+export * from './currency';
+export * from './number';
+export * from './validation';
+export * from './projection';
+export * from './investment';
+export * from './i18n';
+export * from './content';
+export * from './explain';
+export * from './report';
+export * from './files';
+export * from './scenarios';
+export * from './sensitivity';
+export * from './simulation';
+export * from './benchmarks';
+export * from './leads';
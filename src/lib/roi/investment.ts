@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { DEFAULT_ASSUMPTIONS, loadedHourlyRate, resolveAssumptions } from './assumptions';
+import { DEFAULT_MONEY_FORMAT, type CurrencyCode } from './currency';
+import { formatMessage, type Messages } from './i18n';
+import { en } from './messages/en';
+import { optionalNumber, toSectionErrors, type SectionErrors } from './validation';
+import type { CalculatorInputs, FieldValue, ResolvedAssumptions } from './types';
+
+export type LicenseTierId = 'essentials' | 'professional' | 'enterprise';
+
+export interface LicenseTier {
+  id: LicenseTierId;
+  name: string;
+  // Annual subscription price per user seat, from the price list for each currency
+  pricePerSeat: Record<CurrencyCode, number>;
+}
+
+export const LICENSE_TIERS: LicenseTier[] = [
+  { id: 'essentials', name: 'Essentials', pricePerSeat: { USD: 1200, CAD: 1600, GBP: 950, AUD: 1800 } },
+  { id: 'professional', name: 'Professional', pricePerSeat: { USD: 2400, CAD: 3200, GBP: 1900, AUD: 3600 } },
+  { id: 'enterprise', name: 'Enterprise', pricePerSeat: { USD: 3600, CAD: 4800, GBP: 2850, AUD: 5400 } },
+];
+
+// What the organization spends on the solution
+export interface InvestmentInputs {
+  licenseTier: LicenseTierId;
+  seats: FieldValue;
+  implementationFee: FieldValue;
+  // Training time per seat, valued at the fundraiser hourly rate from the admin waste section
+  trainingHours: FieldValue;
+}
+
+export interface InvestmentSummary {
+  annualLicenseCost: number;
+  oneTimeCost: number;
+  firstYearCost: number;
+  // First-year impact minus first-year cost
+  netBenefit: number;
+  // Net benefit as a percentage of first-year cost
+  roiPercent: number;
+  // Months of net monthly benefit needed to recover the one-time costs; null if it never pays back
+  paybackMonths: number | null;
+}
+
+export const createEmptyInvestment = (): InvestmentInputs => ({
+  licenseTier: 'professional',
+  seats: '',
+  implementationFee: '',
+  trainingHours: '',
+});
+
+export const getLicenseTier = (id: LicenseTierId): LicenseTier =>
+  LICENSE_TIERS.find((tier) => tier.id === id) ?? LICENSE_TIERS[0];
+
+export const isInvestmentComplete = (investment: InvestmentInputs): boolean =>
+  investment.seats !== '' && investment.implementationFee !== '' && investment.trainingHours !== '';
+
+// Training can't take longer than the working year the assumptions describe
+const createInvestmentSchema = ({ validation: m }: Messages, assumptions: ResolvedAssumptions) => {
+  const number = () => z.number({ invalid_type_error: m.invalidNumber });
+  return z.object({
+    seats: optionalNumber(number().int(m.wholeNumber).min(1, formatMessage(m.atLeast, { min: 1 }))),
+    implementationFee: optionalNumber(number().min(0, m.notNegative)),
+    trainingHours: optionalNumber(number().min(0, m.notNegative).max(assumptions.annualHours, m.workingYear)),
+  });
+};
+
+export const validateInvestment = (
+  investment: InvestmentInputs,
+  assumptions: ResolvedAssumptions = DEFAULT_ASSUMPTIONS,
+  messages: Messages = en
+): SectionErrors => {
+  const result = createInvestmentSchema(messages, assumptions).safeParse(investment);
+  return result.success ? {} : toSectionErrors(result.error);
+};
+
+// Net return of the first year, comparing total impact with license, implementation and training costs.
+// Licenses are priced in the currency the impacts are shown in.
+export const summarizeInvestment = (
+  totalImpact: number,
+  investment: InvestmentInputs,
+  inputs: CalculatorInputs,
+  currency: CurrencyCode = DEFAULT_MONEY_FORMAT.currency
+): InvestmentSummary => {
+  const seats = Number(investment.seats);
+  const hourlyRate = loadedHourlyRate(inputs.adminWaste.annualSalary, resolveAssumptions(inputs.assumptions));
+
+  const annualLicenseCost = seats * getLicenseTier(investment.licenseTier).pricePerSeat[currency];
+  const trainingCost = Number(investment.trainingHours) * seats * hourlyRate;
+  const oneTimeCost = Math.round(Number(investment.implementationFee) + trainingCost);
+  const firstYearCost = annualLicenseCost + oneTimeCost;
+  const netBenefit = totalImpact - firstYearCost;
+
+  const monthlyNet = (totalImpact - annualLicenseCost) / 12;
+  let paybackMonths: number | null = null;
+  if (oneTimeCost === 0 && monthlyNet >= 0) paybackMonths = 0;
+  else if (monthlyNet > 0) paybackMonths = oneTimeCost / monthlyNet;
+
+  return {
+    annualLicenseCost,
+    oneTimeCost,
+    firstYearCost,
+    netBenefit,
+    roiPercent: firstYearCost > 0 ? (netBenefit / firstYearCost) * 100 : 0,
+    paybackMonths,
+  };
+};
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import type { MoneyFormat } from './currency';
+import type { Messages } from './i18n';
+import { en } from './messages/en';
+import type { ImpactBreakdown } from './types';
+
+// Query parameter that puts the breakdown behind the lead form, e.g. "?gate=true" on a campaign page
+export const LEAD_GATE_PARAM = 'gate';
+
+export interface LeadDetails {
+  name: string;
+  email: string;
+  organization: string;
+  role: string;
+}
+
+// Everything handed to an adapter when someone unlocks their results
+export interface LeadSubmission {
+  lead: LeadDetails;
+  impacts: ImpactBreakdown;
+  currency: MoneyFormat['currency'];
+  submittedAt: string;
+}
+
+// Where captured leads are sent, e.g. a CRM or marketing automation endpoint.
+// Reject the promise to keep the results locked and let the visitor try again.
+export interface LeadCaptureAdapter {
+  submit: (submission: LeadSubmission) => Promise<void>;
+}
+
+export const createLeadSchema = (messages: Messages = en) => {
+  const m = messages.validation;
+  const text = () => z.string().trim().min(1, m.required).max(200, m.tooLong);
+  return z.object({
+    name: text(),
+    email: text().email(m.invalidEmail),
+    organization: text(),
+    role: text(),
+  });
+};
+
+// Records the results the visitor was shown alongside their details
+export const createLeadSubmission = (
+  lead: LeadDetails,
+  impacts: ImpactBreakdown,
+  format: MoneyFormat,
+  submittedAt = new Date()
+): LeadSubmission => ({
+  lead,
+  impacts,
+  currency: format.currency,
+  submittedAt: submittedAt.toISOString(),
+});
+
+// Whether a link asks for the gate; embeds can also turn it on by passing an adapter
+export const readLeadGateFromSearch = (search: string): boolean => {
+  const value = new URLSearchParams(search).get(LEAD_GATE_PARAM)?.toLowerCase();
+  return value === 'true' || value === '1';
+};
@@ -0,0 +1,412 @@
+// English copy, and the fallback for any message missing from another language.
+// Placeholders in braces, e.g. "{name}", are filled in with formatMessage.
+export const en = {
+  // Locale for numbers that appear inside messages, e.g. "Must be 1,000,000 or less"
+  locale: 'en-US',
+  sections: {
+    adminWaste: {
+      tab: 'Admin Waste',
+      result: 'Manual Admin Waste',
+      description: 'Calculate the cost of time spent on manual administrative tasks that could be automated.',
+      assumption: '{rate}, and the data entry hours recur every one of the {weeks} weeks.',
+      fields: {
+        numberOfMGOs: {
+          label: '# of Fundraisers',
+          definition: 'The total number of fundraisers in your organization who would benefit from reduced admin work.',
+        },
+        annualSalary: {
+          label: 'Annual Salary',
+          definition: 'The average annual salary of a fundraiser in your organization.',
+        },
+        hoursPerWeek: {
+          label: 'Hours Spent on Data Entry',
+          definition: 'The number of hours per week spent on data entry.',
+        },
+      },
+    },
+    siloedCollaboration: {
+      tab: 'Isolated Teamwork',
+      result: 'Siloed Collaboration',
+      description: 'Measure the cost of inefficient collaboration across development teams.',
+      assumption: '{rate}, and the hours lost recur every one of the {weeks} weeks.',
+      fields: {
+        annualSalary: {
+          label: 'Annual Salary',
+          definition: 'The average annual salary of team members involved in collaborative fundraising efforts.',
+        },
+        hoursWasted: {
+          label: 'Hours Wasted Per Week',
+          definition: 'Hours wasted per week due to siloed information and lack of collaborative tools.',
+        },
+        numberOfUsers: {
+          label: 'Number of Users',
+          definition: 'Number of team members affected by collaboration inefficiencies.',
+        },
+      },
+    },
+    grantReporting: {
+      tab: 'Grant Reporting',
+      result: 'Grant Reporting Overhead',
+      description: 'Calculate the cost of staff time spent pulling together reports for grant funders.',
+      assumption: '{rate}, and every report takes the same number of hours to assemble.',
+      fields: {
+        activeGrants: {
+          label: '# of Active Grants',
+          definition: 'The number of grants your organization is currently managing that require reporting.',
+        },
+        reportsPerGrant: {
+          label: 'Reports per Grant per Year',
+          definition: 'How many progress, financial or final reports each grant requires in a year.',
+        },
+        hoursPerReport: {
+          label: 'Hours per Report',
+          definition: 'The staff hours it takes to gather the data for and assemble a single report.',
+        },
+        annualSalary: {
+          label: 'Annual Salary',
+          definition: 'The average annual salary of the staff who prepare grant reports.',
+        },
+      },
+    },
+    missedUpgrades: {
+      tab: 'Missed Upgrades',
+      result: 'Missed Upgrades',
+      description: 'Estimate potential revenue from upgrading existing donors to higher gift levels.',
+      assumption: 'Each upgraded donor gives an additional amount equal to the average gift, of which the realization rate is actually raised.',
+      fields: {
+        upgradableDonors: {
+          label: '# of Donors with Potential to Upgrade',
+          definition: 'The number of donors in your database who have the potential for upgrading their gift level.',
+        },
+        averageGiftSize: {
+          label: 'Average Gift Size',
+          definition: 'The average donation amount from your typical donor.',
+        },
+        upgradePercentage: {
+          label: 'Upgrade %',
+          definition: 'The percentage of donors you feel you will successfully upgrade.',
+        },
+        realizationRate: {
+          label: 'Realization Rate',
+          definition: 'The percent of extra giving potential from donors that you expect to actually raise.',
+        },
+      },
+    },
+    donorLapse: {
+      tab: 'Donor Lapse',
+      result: 'Donor Lapse',
+      description: 'Quantify the cost of donor attrition that could be prevented with better management.',
+      assumption: "Each lapsed donor's average gift is lost for the year, in every portfolio.",
+      fields: {
+        lapsedDonors: {
+          label: 'Number of Lapsed Donors',
+          definition: 'The average number of donors who stop giving or become inactive each year in a portfolio.',
+        },
+        averageGift: {
+          label: 'Average Gift',
+          definition: 'The average gift amount from these at-risk donors.',
+        },
+        numberOfPortfolios: {
+          label: 'Number of Portfolios',
+          definition: 'The number of donor portfolios in your organization.',
+        },
+      },
+    },
+    staffTurnover: {
+      tab: 'Staff Turnover',
+      result: 'Staff Turnover & Portfolio Handoff',
+      description: 'Estimate the cost of relationships and knowledge lost when a major gift officer leaves.',
+      assumption: 'Every departure means a full recruiting and onboarding cycle, and the portfolio raises nothing until the replacement is up to speed.',
+      fields: {
+        numberOfMGOs: {
+          label: '# of Major Gift Officers',
+          definition: 'The number of major gift officers in your organization who manage a portfolio.',
+        },
+        turnoverRate: {
+          label: 'Annual Turnover Rate',
+          definition: 'The percentage of major gift officers who leave in a typical year.',
+        },
+        monthsToRamp: {
+          label: 'Months to Ramp',
+          definition: 'Months from a departure until the replacement is fully productive with the portfolio, including the vacancy.',
+        },
+        recruitingCost: {
+          label: 'Recruiting & Onboarding Cost',
+          definition: 'The cost of recruiting, hiring and onboarding each replacement.',
+        },
+        portfolioRevenue: {
+          label: 'Portfolio Revenue at Risk',
+          definition: "The revenue a typical officer's portfolio raises in a year, which stalls while the role is vacant or ramping up.",
+        },
+      },
+    },
+    pipelineConversion: {
+      tab: 'Pipeline Conversion',
+      result: 'Donor Acquisition Pipeline',
+      description: 'Estimate revenue from prospects your research team identifies but who are never qualified or asked.',
+      assumption: 'Each additional qualified prospect who closes makes one first gift of the average size; later gifts are not counted.',
+      fields: {
+        ratedProspects: {
+          label: '# of Rated Prospects',
+          definition: 'The number of prospects your research team has identified and rated for capacity.',
+        },
+        firstGiftAverage: {
+          label: 'Average First Gift',
+          definition: 'The average size of a first gift from a newly acquired major donor.',
+        },
+        qualificationImprovement: {
+          label: 'Qualification Rate Improvement',
+          definition: 'The additional percentage of rated prospects you expect to qualify with better tools and visibility.',
+        },
+        closeRate: {
+          label: 'Close Rate',
+          definition: 'The percentage of qualified prospects who go on to make a first gift.',
+        },
+      },
+    },
+  },
+  sectionStatus: {
+    empty: 'Not started',
+    partial: 'In progress',
+    complete: 'Complete',
+    invalid: 'Needs attention',
+    summary: '{count} of {total} sections complete',
+  },
+  categories: {
+    wastedSalarySpend: 'Wasted Annual Salary Spend',
+    opportunityCost: 'Opportunity Cost',
+  },
+  assumptions: {
+    title: 'Salary Assumptions',
+    summary: '{hours} hrs · {weeks} wks · {load}% load',
+    intro: 'Used to value time in Admin Waste, Isolated Teamwork and Grant Reporting. Leave a field empty to use the default.',
+    // Fills {rate} in a section's assumption
+    hourlyRate: 'Salary is converted to an hourly rate over a {hours}-hour working year',
+    loadedHourlyRate: 'Salary plus a {load}% benefits and overhead load is converted to an hourly rate over a {hours}-hour working year',
+    fields: {
+      annualHours: {
+        label: 'Paid Hours Per Year',
+        definition: 'Hours a full-time employee is paid for in a year, used to turn salaries into an hourly rate.',
+      },
+      weeksPerYear: {
+        label: 'Working Weeks Per Year',
+        definition: 'Weeks in the year the weekly hours recur, excluding holidays and leave if you want to account for them.',
+      },
+      overheadLoad: {
+        label: 'Benefits & Overhead Load',
+        definition: 'Benefits, payroll taxes and overhead as a percentage of salary; 25–35% is typical for nonprofits.',
+      },
+    },
+  },
+  calculator: {
+    next: 'Next',
+    calculate: 'Calculate ROI',
+    startOver: 'Start over',
+    import: 'Import',
+    fixFields: 'Fix the highlighted fields to calculate your ROI.',
+    total: 'Total',
+    potentialImpact: 'Potential Annual Impact',
+    netBenefit: 'Net Benefit',
+    roi: 'ROI',
+    payback: 'Payback',
+    paybackNever: 'Never',
+    paybackMonths: '{months} mo',
+    downloadReport: 'Download report',
+    export: 'Export',
+    exportCsv: 'CSV (spreadsheet)',
+    exportJson: 'JSON',
+    copyShareLink: 'Copy share link',
+    linkCopied: 'Link copied to clipboard',
+    linkCopyFailed: "Couldn't copy the link",
+    reportFailed: "Couldn't generate the report. Please try again.",
+    importFailed: "Couldn't import that scenario",
+    imported: 'Imported {name}',
+    loaded: 'Loaded {name}',
+    resumeTitle: 'Resume where you left off?',
+    resumeDescription: 'You have an unfinished ROI assessment. Pick up where you left off or start a new one.',
+    resumeDescriptionSaved: 'You have an unfinished ROI assessment from {savedAt}. Pick up where you left off or start a new one.',
+    resume: 'Resume',
+    showMath: 'Show the math for {name}',
+    liveMode: 'Live results',
+    stale: 'Inputs have changed since these results were calculated.',
+    recalculate: 'Recalculate',
+    partialResults: 'Partial results: {count} of {total} sections counted so far.',
+    partialImpact: 'Partial annual impact',
+  },
+  benchmarks: {
+    title: 'Start from benchmarks',
+    size: 'Organization size',
+    sector: 'Sector',
+    sizes: {
+      small: 'Small',
+      medium: 'Mid-sized',
+      large: 'Large',
+    },
+    sectors: {
+      higherEd: 'Higher education',
+      healthcare: 'Healthcare',
+      arts: 'Arts & culture',
+      humanServices: 'Human services',
+    },
+    apply: 'Fill in',
+    badge: 'Benchmark',
+    badgeHint: 'A typical value for organizations like yours. Type over it to use your own.',
+  },
+  wizard: {
+    toggle: 'Step by step',
+    step: 'Question {step} of {total}',
+    progress: 'Progress',
+    back: 'Back',
+    review: 'Review your answers',
+    reviewStep: 'Review',
+    reviewIntro: 'Check your numbers before calculating. Select any answer to change it.',
+    edit: 'Change {field}',
+    keyboardHint: 'Press Enter to continue, or Alt + ← to go back.',
+  },
+  leads: {
+    title: 'See your full results',
+    intro: 'Tell us a little about yourself to unlock the full breakdown and download your report.',
+    name: 'Name',
+    email: 'Work email',
+    organization: 'Organization',
+    role: 'Role',
+    submit: 'Unlock my results',
+    failed: "Couldn't send your details. Please try again.",
+  },
+  settings: {
+    language: 'Language',
+    currency: 'Currency',
+    numberFormat: 'Number format',
+    currencies: {
+      USD: 'US Dollar',
+      CAD: 'Canadian Dollar',
+      GBP: 'British Pound',
+      AUD: 'Australian Dollar',
+    },
+  },
+  investment: {
+    title: 'Your Investment',
+    intro: 'Compare the impact with what the solution costs to see your net return.',
+    licenseTier: 'License Tier',
+    tierPrice: '{price} / seat / yr',
+    seats: 'Number of Seats',
+    implementationFee: 'Implementation Fee',
+    trainingHours: 'Training Hours per Seat',
+  },
+  projection: {
+    title: 'Projection Horizon',
+    horizonYear: '1 yr',
+    horizonYears: '{years} yrs',
+    upgradeDecay: 'Upgrade Decay / Year',
+    salaryGrowth: 'Annual Raise',
+    year: 'Year',
+    yearLabel: 'Year {year}',
+    yearShort: 'Y{year}',
+    wastedSalary: 'Wasted Salary',
+    opportunityCost: 'Opportunity Cost',
+    annualTotal: 'Annual Total',
+    annual: 'Annual',
+    cumulative: 'Cumulative',
+  },
+  scenarios: {
+    title: 'Compare Scenarios',
+    intro: 'Save these results under a name, adjust your assumptions, and save again to show a range.',
+    nameLabel: 'Scenario name',
+    save: 'Save scenario',
+    section: 'Section',
+    load: 'Load this scenario into the calculator',
+    remove: 'Remove {name}',
+    total: 'Total',
+    relativeTo: 'Differences are relative to {name}.',
+    // Offered, in order, when saving a new scenario
+    suggestedNames: {
+      conservative: 'Conservative',
+      expected: 'Expected',
+      optimistic: 'Optimistic',
+    },
+    numberedName: 'Scenario {number}',
+  },
+  sensitivity: {
+    title: 'Sensitivity Analysis',
+    intro: 'How far the total moves when each input alone is {percent}% lower or higher than entered.',
+    varyBy: 'Vary by ±',
+    centered: 'Centered on the current total of {total}. Inputs at the top deserve the most care.',
+  },
+  monteCarlo: {
+    title: 'Range Mode (Monte Carlo)',
+    intro: 'Give each input a low, likely and high estimate to see a confidence interval instead of a single number.',
+    enable: 'Enable range mode',
+    points: {
+      low: 'low',
+      likely: 'likely',
+      high: 'high',
+    },
+    estimate: '{point} estimate',
+    rangeOrder: 'Keep low ≤ likely ≤ high',
+    distribution: 'Distribution',
+    pert: 'PERT',
+    triangular: 'Triangular',
+    run: 'Run {count} simulations',
+    interval: '80% of simulated outcomes fall between {low} and {high}.',
+    simulations: 'Simulations',
+    runFailed: "Couldn't run the simulations. Please try again.",
+  },
+  report: {
+    header: 'Instil  |  Fundraising ROI Analysis',
+    title: 'Your Fundraising ROI Analysis',
+    prepared: 'Prepared {date}',
+    returnOnInvestment: 'Return on Investment',
+    license: 'License ({tier}, {seats} seats)',
+    perYear: '{amount} / yr',
+    oneTimeCost: 'Implementation and training',
+    firstYearCost: 'First-year cost',
+    paybackPeriod: 'Payback period',
+    paybackNever: 'Not reached',
+    paybackMonths: '{months} months',
+    projection: '{years}-Year Projection',
+    projectionYear: 'Year {year}: {total}',
+    projectionCumulative: 'Cumulative {total}',
+    inputs: 'Your Inputs',
+    assumptions: 'Assumptions',
+    formulas: 'How Each Figure Is Calculated',
+    disclaimersTitle: 'Assumptions & Disclaimers',
+    disclaimers: {
+      estimates: 'All figures are estimates derived from the values entered and are not a guarantee of future results.',
+      // {overhead} is one of the two phrases below
+      workingYear: 'Salary-based costs assume a {hours}-hour working year of {weeks} weeks and {overhead}.',
+      withOverhead: 'include a {load}% benefits and overhead load',
+      withoutOverhead: 'exclude benefits and overhead',
+      opportunityCost: 'Opportunity costs represent revenue that could be gained or retained, not revenue that is currently lost from the budget.',
+      currency: 'All amounts are in {currency}. Results are rounded to the nearest whole unit; subtotals are the sum of rounded section figures.',
+    },
+    page: 'Page {page} of {total}',
+  },
+  files: {
+    notScenarioFile: "This isn't an ROI scenario file",
+    invalidJson: "The file isn't valid JSON",
+    needsRows: 'The file needs a header row and a data row',
+    missingColumn: 'Missing column {column}',
+    unsupportedVersion: 'Unsupported file version (expected {versions})',
+    unsupportedCurrency: 'Unsupported currency',
+  },
+  validation: {
+    required: 'Required',
+    invalidNumber: 'Enter a valid number',
+    invalidEmail: 'Enter a valid email address',
+    tooLong: 'Keep this under 200 characters',
+    wholeNumber: 'Must be a whole number',
+    atLeast: 'Must be at least {min}',
+    atMost: 'Must be {max} or less',
+    positive: 'Must be greater than 0',
+    notNegative: "Can't be negative",
+    negativeNotAllowed: "Negative values aren't allowed",
+    wholeNumbersOnly: 'Whole numbers only',
+    maxDecimals: 'Use at most {digits} decimal places',
+    maxWeekHours: 'A week only has 168 hours',
+    maxPercent: "Can't exceed {max}%",
+    workingWeek: "Can't exceed a {hours}-hour working week",
+    maxYearHours: 'A year only has 8,760 hours',
+    maxYearWeeks: 'A year only has 52 weeks',
+    workingYear: "Can't exceed a working year",
+  },
+};
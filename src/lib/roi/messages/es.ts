@@ -0,0 +1,407 @@
+import type { PartialMessages } from '../i18n';
+
+// Spanish copy, written for Latin American partner organizations
+export const es: PartialMessages = {
+  locale: 'es-MX',
+  sections: {
+    adminWaste: {
+      tab: 'Tareas administrativas',
+      result: 'Captura manual de datos',
+      description: 'Calcule el costo del tiempo dedicado a tareas administrativas manuales que podrían automatizarse.',
+      assumption: '{rate}, y las horas de captura de datos se repiten en cada una de las {weeks} semanas.',
+      fields: {
+        numberOfMGOs: {
+          label: 'Número de recaudadores',
+          definition: 'El número total de recaudadores de fondos de su organización que se beneficiarían de reducir el trabajo administrativo.',
+        },
+        annualSalary: {
+          label: 'Salario anual',
+          definition: 'El salario anual promedio de un recaudador de fondos en su organización.',
+        },
+        hoursPerWeek: {
+          label: 'Horas dedicadas a la captura de datos',
+          definition: 'El número de horas por semana dedicadas a la captura de datos.',
+        },
+      },
+    },
+    siloedCollaboration: {
+      tab: 'Trabajo aislado',
+      result: 'Colaboración aislada',
+      description: 'Mida el costo de una colaboración ineficiente entre los equipos de desarrollo.',
+      assumption: '{rate}, y las horas perdidas se repiten en cada una de las {weeks} semanas.',
+      fields: {
+        annualSalary: {
+          label: 'Salario anual',
+          definition: 'El salario anual promedio de los miembros del equipo que participan en la recaudación de fondos.',
+        },
+        hoursWasted: {
+          label: 'Horas perdidas por semana',
+          definition: 'Horas perdidas por semana debido a información aislada y a la falta de herramientas colaborativas.',
+        },
+        numberOfUsers: {
+          label: 'Número de usuarios',
+          definition: 'Número de miembros del equipo afectados por una colaboración ineficiente.',
+        },
+      },
+    },
+    grantReporting: {
+      tab: 'Informes de subvenciones',
+      result: 'Elaboración de informes de subvenciones',
+      description: 'Calcule el costo del tiempo que su equipo dedica a preparar informes para los financiadores.',
+      assumption: '{rate}, y cada informe requiere el mismo número de horas de preparación.',
+      fields: {
+        activeGrants: {
+          label: 'Número de subvenciones activas',
+          definition: 'El número de subvenciones que su organización gestiona actualmente y que requieren informes.',
+        },
+        reportsPerGrant: {
+          label: 'Informes por subvención al año',
+          definition: 'Cuántos informes de avance, financieros o finales exige cada subvención en un año.',
+        },
+        hoursPerReport: {
+          label: 'Horas por informe',
+          definition: 'Las horas de trabajo necesarias para reunir los datos y elaborar un solo informe.',
+        },
+        annualSalary: {
+          label: 'Salario anual',
+          definition: 'El salario anual promedio del personal que prepara los informes de subvenciones.',
+        },
+      },
+    },
+    missedUpgrades: {
+      tab: 'Aumentos perdidos',
+      result: 'Aumentos perdidos',
+      description: 'Estime los ingresos potenciales de lograr que sus donantes actuales aumenten sus donativos.',
+      assumption: 'Cada donante que aumenta su donación aporta un monto adicional igual a la donación promedio, del cual solo se recauda realmente la tasa de realización.',
+      fields: {
+        upgradableDonors: {
+          label: 'Número de donantes con potencial de aumento',
+          definition: 'El número de donantes en su base de datos con potencial para aumentar el monto de su donativo.',
+        },
+        averageGiftSize: {
+          label: 'Donativo promedio',
+          definition: 'El monto promedio del donativo de un donante típico.',
+        },
+        upgradePercentage: {
+          label: '% de aumento',
+          definition: 'El porcentaje de donantes que cree que logrará que aumenten su donativo.',
+        },
+        realizationRate: {
+          label: 'Tasa de realización',
+          definition: 'El porcentaje del potencial de donativos adicionales que espera recaudar realmente.',
+        },
+      },
+    },
+    donorLapse: {
+      tab: 'Donantes perdidos',
+      result: 'Donantes perdidos',
+      description: 'Cuantifique el costo de la pérdida de donantes que una mejor gestión podría evitar.',
+      assumption: 'La donación promedio de cada donante perdido se pierde durante el año, en cada cartera.',
+      fields: {
+        lapsedDonors: {
+          label: 'Número de donantes perdidos',
+          definition: 'El número promedio de donantes por cartera que dejan de donar o se vuelven inactivos cada año.',
+        },
+        averageGift: {
+          label: 'Donativo promedio',
+          definition: 'El monto promedio de los donativos de estos donantes en riesgo.',
+        },
+        numberOfPortfolios: {
+          label: 'Número de carteras',
+          definition: 'El número de carteras de donantes en su organización.',
+        },
+      },
+    },
+    staffTurnover: {
+      tab: 'Rotación de personal',
+      result: 'Rotación y traspaso de carteras',
+      description: 'Estime el costo de las relaciones y el conocimiento que se pierden cuando un oficial de grandes donativos deja la organización.',
+      assumption: 'Cada salida implica un ciclo completo de reclutamiento e incorporación, y la cartera no recauda nada hasta que el reemplazo está plenamente preparado.',
+      fields: {
+        numberOfMGOs: {
+          label: 'Número de oficiales de grandes donativos',
+          definition: 'El número de oficiales de grandes donativos de su organización que gestionan una cartera.',
+        },
+        turnoverRate: {
+          label: 'Tasa de rotación anual',
+          definition: 'El porcentaje de oficiales de grandes donativos que se van en un año típico.',
+        },
+        monthsToRamp: {
+          label: 'Meses para ser productivo',
+          definition: 'Los meses desde una salida hasta que el reemplazo es plenamente productivo con la cartera, incluida la vacante.',
+        },
+        recruitingCost: {
+          label: 'Costo de reclutamiento e integración',
+          definition: 'El costo de reclutar, contratar e integrar a cada reemplazo.',
+        },
+        portfolioRevenue: {
+          label: 'Ingresos de la cartera en riesgo',
+          definition: 'Los ingresos que una cartera típica recauda en un año, que se detienen mientras el puesto está vacante o el reemplazo se pone al día.',
+        },
+      },
+    },
+    pipelineConversion: {
+      tab: 'Conversión de prospectos',
+      result: 'Canal de captación de donantes',
+      description: 'Estime los ingresos de prospectos que su equipo de investigación identifica, pero que nunca se califican ni se solicitan.',
+      assumption: 'Cada prospecto calificado adicional que concreta hace una primera donación de tamaño promedio; las donaciones posteriores no se cuentan.',
+      fields: {
+        ratedProspects: {
+          label: 'Número de prospectos evaluados',
+          definition: 'El número de prospectos que su equipo de investigación ha identificado y cuya capacidad de donación ha evaluado.',
+        },
+        firstGiftAverage: {
+          label: 'Primer donativo promedio',
+          definition: 'El monto promedio del primer donativo de un nuevo gran donante.',
+        },
+        qualificationImprovement: {
+          label: 'Mejora en la tasa de calificación',
+          definition: 'El porcentaje adicional de prospectos evaluados que espera calificar con mejores herramientas y visibilidad.',
+        },
+        closeRate: {
+          label: 'Tasa de cierre',
+          definition: 'El porcentaje de prospectos calificados que luego hacen un primer donativo.',
+        },
+      },
+    },
+  },
+  sectionStatus: {
+    empty: 'Sin empezar',
+    partial: 'En curso',
+    complete: 'Completa',
+    invalid: 'Requiere atención',
+    summary: '{count} de {total} secciones completas',
+  },
+  categories: {
+    wastedSalarySpend: 'Gasto salarial anual desperdiciado',
+    opportunityCost: 'Costo de oportunidad',
+  },
+  assumptions: {
+    title: 'Supuestos salariales',
+    summary: '{hours} h · {weeks} sem. · {load} % de carga',
+    intro: 'Se usan para valorar el tiempo en Tareas administrativas, Trabajo aislado e Informes de subvenciones. Deje un campo vacío para usar el valor predeterminado.',
+    hourlyRate: 'El salario se convierte en una tarifa por hora sobre un año laboral de {hours} horas',
+    loadedHourlyRate: 'El salario, más un {load} % de prestaciones y gastos generales, se convierte en una tarifa por hora sobre un año laboral de {hours} horas',
+    fields: {
+      annualHours: {
+        label: 'Horas pagadas por año',
+        definition: 'Horas que se pagan a un empleado de tiempo completo en un año; se usan para convertir salarios en una tarifa por hora.',
+      },
+      weeksPerYear: {
+        label: 'Semanas laborales por año',
+        definition: 'Semanas del año en que se repiten las horas semanales; excluya vacaciones y permisos si quiere tomarlos en cuenta.',
+      },
+      overheadLoad: {
+        label: 'Prestaciones y gastos generales',
+        definition: 'Prestaciones, cargas sociales y gastos generales como porcentaje del salario; entre 25 y 35 % es común en organizaciones sin fines de lucro.',
+      },
+    },
+  },
+  calculator: {
+    next: 'Siguiente',
+    calculate: 'Calcular el ROI',
+    startOver: 'Empezar de nuevo',
+    import: 'Importar',
+    fixFields: 'Corrija los campos resaltados para calcular su ROI.',
+    total: 'Total',
+    potentialImpact: 'Impacto anual potencial',
+    netBenefit: 'Beneficio neto',
+    roi: 'ROI',
+    payback: 'Recuperación',
+    paybackNever: 'Nunca',
+    paybackMonths: '{months} meses',
+    downloadReport: 'Descargar informe',
+    export: 'Exportar',
+    exportCsv: 'CSV (hoja de cálculo)',
+    copyShareLink: 'Copiar enlace para compartir',
+    linkCopied: 'Enlace copiado al portapapeles',
+    linkCopyFailed: 'No se pudo copiar el enlace',
+    reportFailed: 'No se pudo generar el informe. Inténtelo de nuevo.',
+    importFailed: 'No se pudo importar ese escenario',
+    imported: 'Se importó {name}',
+    loaded: 'Se cargó {name}',
+    resumeTitle: '¿Continuar donde se quedó?',
+    resumeDescription: 'Tiene una evaluación de ROI sin terminar. Continúe donde se quedó o empiece una nueva.',
+    resumeDescriptionSaved: 'Tiene una evaluación de ROI sin terminar del {savedAt}. Continúe donde se quedó o empiece una nueva.',
+    resume: 'Continuar',
+    showMath: 'Mostrar el cálculo de {name}',
+    liveMode: 'Resultados en vivo',
+    stale: 'Los datos cambiaron desde que se calcularon estos resultados.',
+    recalculate: 'Recalcular',
+    partialResults: 'Resultados parciales: {count} de {total} secciones contadas hasta ahora.',
+    partialImpact: 'Impacto anual parcial',
+  },
+  benchmarks: {
+    title: 'Partir de valores de referencia',
+    size: 'Tamaño de la organización',
+    sector: 'Sector',
+    sizes: {
+      small: 'Pequeña',
+      medium: 'Mediana',
+      large: 'Grande',
+    },
+    sectors: {
+      higherEd: 'Educación superior',
+      healthcare: 'Salud',
+      arts: 'Arte y cultura',
+      humanServices: 'Servicios sociales',
+    },
+    apply: 'Completar',
+    badge: 'Referencia',
+    badgeHint: 'Un valor típico para organizaciones como la suya. Escriba el suyo para reemplazarlo.',
+  },
+  wizard: {
+    toggle: 'Paso a paso',
+    step: 'Pregunta {step} de {total}',
+    progress: 'Progreso',
+    back: 'Atrás',
+    review: 'Revise sus respuestas',
+    reviewStep: 'Revisión',
+    reviewIntro: 'Revise sus cifras antes de calcular. Seleccione una respuesta para cambiarla.',
+    edit: 'Cambiar {field}',
+    keyboardHint: 'Presione Entrar para continuar, o Alt + ← para regresar.',
+  },
+  leads: {
+    title: 'Vea todos sus resultados',
+    intro: 'Cuéntenos un poco sobre usted para ver el desglose completo y descargar su informe.',
+    name: 'Nombre',
+    email: 'Correo electrónico de trabajo',
+    organization: 'Organización',
+    role: 'Cargo',
+    submit: 'Ver mis resultados',
+    failed: 'No se pudieron enviar sus datos. Inténtelo de nuevo.',
+  },
+  settings: {
+    language: 'Idioma',
+    currency: 'Moneda',
+    numberFormat: 'Formato de números',
+    currencies: {
+      USD: 'Dólar estadounidense',
+      CAD: 'Dólar canadiense',
+      GBP: 'Libra esterlina',
+      AUD: 'Dólar australiano',
+    },
+  },
+  investment: {
+    title: 'Su inversión',
+    intro: 'Compare el impacto con el costo de la solución para ver su rendimiento neto.',
+    licenseTier: 'Plan de licencia',
+    tierPrice: '{price} / usuario / año',
+    seats: 'Número de usuarios',
+    implementationFee: 'Costo de implementación',
+    trainingHours: 'Horas de capacitación por usuario',
+  },
+  projection: {
+    title: 'Horizonte de proyección',
+    horizonYear: '1 año',
+    horizonYears: '{years} años',
+    upgradeDecay: 'Disminución de aumentos / año',
+    salaryGrowth: 'Aumento salarial anual',
+    year: 'Año',
+    yearLabel: 'Año {year}',
+    yearShort: 'A{year}',
+    wastedSalary: 'Salario desperdiciado',
+    opportunityCost: 'Costo de oportunidad',
+    annualTotal: 'Total anual',
+    annual: 'Anual',
+    cumulative: 'Acumulado',
+  },
+  scenarios: {
+    title: 'Comparar escenarios',
+    intro: 'Guarde estos resultados con un nombre, ajuste sus supuestos y vuelva a guardar para mostrar un rango.',
+    nameLabel: 'Nombre del escenario',
+    save: 'Guardar escenario',
+    section: 'Sección',
+    load: 'Cargar este escenario en la calculadora',
+    remove: 'Eliminar {name}',
+    total: 'Total',
+    relativeTo: 'Las diferencias son relativas a {name}.',
+    suggestedNames: {
+      conservative: 'Conservador',
+      expected: 'Esperado',
+      optimistic: 'Optimista',
+    },
+    numberedName: 'Escenario {number}',
+  },
+  sensitivity: {
+    title: 'Análisis de sensibilidad',
+    intro: 'Cuánto cambia el total cuando cada dato, por sí solo, es {percent} % menor o mayor que el valor ingresado.',
+    varyBy: 'Variar ±',
+    centered: 'Centrado en el total actual de {total}. Los datos de arriba son los que merecen más cuidado.',
+  },
+  monteCarlo: {
+    title: 'Modo de rango (Monte Carlo)',
+    intro: 'Indique una estimación baja, probable y alta para cada dato y obtenga un intervalo de confianza en lugar de un solo número.',
+    enable: 'Activar el modo de rango',
+    points: {
+      low: 'baja',
+      likely: 'probable',
+      high: 'alta',
+    },
+    estimate: 'Estimación {point}',
+    rangeOrder: 'Mantenga baja ≤ probable ≤ alta',
+    distribution: 'Distribución',
+    triangular: 'Triangular',
+    run: 'Ejecutar {count} simulaciones',
+    interval: 'El 80 % de los resultados simulados está entre {low} y {high}.',
+    simulations: 'Simulaciones',
+    runFailed: 'No se pudieron ejecutar las simulaciones. Inténtelo de nuevo.',
+  },
+  report: {
+    header: 'Instil  |  Análisis del ROI de la recaudación de fondos',
+    title: 'Su análisis del ROI de la recaudación de fondos',
+    prepared: 'Preparado el {date}',
+    returnOnInvestment: 'Retorno de la inversión',
+    license: 'Licencia ({tier}, {seats} puestos)',
+    perYear: '{amount} / año',
+    oneTimeCost: 'Implementación y capacitación',
+    firstYearCost: 'Costo del primer año',
+    paybackPeriod: 'Período de recuperación',
+    paybackNever: 'No se alcanza',
+    paybackMonths: '{months} meses',
+    projection: 'Proyección a {years} años',
+    projectionYear: 'Año {year}: {total}',
+    projectionCumulative: 'Acumulado {total}',
+    inputs: 'Sus datos',
+    assumptions: 'Supuestos',
+    formulas: 'Cómo se calcula cada cifra',
+    disclaimersTitle: 'Supuestos y advertencias',
+    disclaimers: {
+      estimates: 'Todas las cifras son estimaciones basadas en los valores ingresados y no garantizan resultados futuros.',
+      workingYear: 'Los costos salariales suponen un año laboral de {hours} horas en {weeks} semanas y {overhead}.',
+      withOverhead: 'incluyen un {load} % de prestaciones y gastos generales',
+      withoutOverhead: 'excluyen prestaciones y gastos generales',
+      opportunityCost: 'Los costos de oportunidad representan ingresos que podrían obtenerse o conservarse, no ingresos que se pierden actualmente del presupuesto.',
+      currency: 'Todos los montos están en {currency}. Los resultados se redondean a la unidad más cercana; los subtotales son la suma de las cifras redondeadas de cada sección.',
+    },
+    page: 'Página {page} de {total}',
+  },
+  files: {
+    notScenarioFile: 'Este archivo no es un escenario de ROI',
+    invalidJson: 'El archivo no es un JSON válido',
+    needsRows: 'El archivo necesita una fila de encabezado y una fila de datos',
+    missingColumn: 'Falta la columna {column}',
+    unsupportedVersion: 'Versión de archivo no compatible (se esperaba {versions})',
+    unsupportedCurrency: 'Moneda no compatible',
+  },
+  validation: {
+    required: 'Obligatorio',
+    invalidNumber: 'Ingrese un número válido',
+    invalidEmail: 'Ingrese un correo electrónico válido',
+    tooLong: 'Use menos de 200 caracteres',
+    wholeNumber: 'Debe ser un número entero',
+    atLeast: 'Debe ser al menos {min}',
+    atMost: 'Debe ser {max} o menos',
+    positive: 'Debe ser mayor que 0',
+    notNegative: 'No puede ser negativo',
+    negativeNotAllowed: 'No se permiten valores negativos',
+    wholeNumbersOnly: 'Solo números enteros',
+    maxDecimals: 'Use como máximo {digits} decimales',
+    maxWeekHours: 'Una semana solo tiene 168 horas',
+    maxPercent: 'No puede ser mayor que {max} %',
+    workingWeek: 'No puede superar una semana laboral de {hours} horas',
+    maxYearHours: 'Un año solo tiene 8,760 horas',
+    maxYearWeeks: 'Un año solo tiene 52 semanas',
+    workingYear: 'No puede superar un año laboral',
+  },
+};
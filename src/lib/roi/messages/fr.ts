@@ -0,0 +1,407 @@
+import type { PartialMessages } from '../i18n';
+
+// French copy, written for Quebec partner organizations
+export const fr: PartialMessages = {
+  locale: 'fr-CA',
+  sections: {
+    adminWaste: {
+      tab: 'Tâches administratives',
+      result: 'Saisie manuelle de données',
+      description: 'Calculez le coût du temps consacré à des tâches administratives manuelles qui pourraient être automatisées.',
+      assumption: '{rate}, et les heures de saisie de données reviennent à chacune des {weeks} semaines.',
+      fields: {
+        numberOfMGOs: {
+          label: 'Nombre de collecteurs de fonds',
+          definition: "Le nombre total de collecteurs de fonds de votre organisme qui profiteraient d'une réduction des tâches administratives.",
+        },
+        annualSalary: {
+          label: 'Salaire annuel',
+          definition: "Le salaire annuel moyen d'un collecteur de fonds dans votre organisme.",
+        },
+        hoursPerWeek: {
+          label: 'Heures consacrées à la saisie de données',
+          definition: "Le nombre d'heures par semaine consacrées à la saisie de données.",
+        },
+      },
+    },
+    siloedCollaboration: {
+      tab: 'Travail en silo',
+      result: 'Collaboration en silo',
+      description: "Mesurez le coût d'une collaboration inefficace entre les équipes de développement.",
+      assumption: '{rate}, et les heures perdues reviennent à chacune des {weeks} semaines.',
+      fields: {
+        annualSalary: {
+          label: 'Salaire annuel',
+          definition: "Le salaire annuel moyen des membres de l'équipe qui participent aux efforts de collecte de fonds.",
+        },
+        hoursWasted: {
+          label: 'Heures perdues par semaine',
+          definition: "Heures perdues chaque semaine en raison d'informations cloisonnées et du manque d'outils collaboratifs.",
+        },
+        numberOfUsers: {
+          label: "Nombre d'utilisateurs",
+          definition: "Nombre de membres de l'équipe touchés par une collaboration inefficace.",
+        },
+      },
+    },
+    grantReporting: {
+      tab: 'Rapports de subvention',
+      result: 'Production des rapports de subvention',
+      description: 'Calculez le coût du temps que votre équipe consacre à préparer les rapports destinés aux bailleurs de fonds.',
+      assumption: '{rate}, et chaque rapport demande le même nombre d’heures à préparer.',
+      fields: {
+        activeGrants: {
+          label: 'Nombre de subventions actives',
+          definition: 'Le nombre de subventions que gère actuellement votre organisme et qui exigent des rapports.',
+        },
+        reportsPerGrant: {
+          label: 'Rapports par subvention par année',
+          definition: "Le nombre de rapports d'étape, financiers ou finaux exigés pour chaque subvention au cours d'une année.",
+        },
+        hoursPerReport: {
+          label: 'Heures par rapport',
+          definition: "Les heures de travail nécessaires pour rassembler les données et rédiger un seul rapport.",
+        },
+        annualSalary: {
+          label: 'Salaire annuel',
+          definition: 'Le salaire annuel moyen des membres du personnel qui préparent les rapports de subvention.',
+        },
+      },
+    },
+    missedUpgrades: {
+      tab: 'Bonifications manquées',
+      result: 'Bonifications manquées',
+      description: 'Estimez les revenus que pourrait générer la bonification des dons de vos donateurs actuels.',
+      assumption: 'Chaque donateur qui augmente son don verse un montant supplémentaire égal au don moyen, dont seul le taux de réalisation est réellement recueilli.',
+      fields: {
+        upgradableDonors: {
+          label: 'Nombre de donateurs pouvant bonifier leur don',
+          definition: 'Le nombre de donateurs de votre base de données qui pourraient augmenter le montant de leur don.',
+        },
+        averageGiftSize: {
+          label: 'Don moyen',
+          definition: "Le montant moyen d'un don de votre donateur type.",
+        },
+        upgradePercentage: {
+          label: '% de bonification',
+          definition: 'Le pourcentage de donateurs que vous pensez réussir à amener à bonifier leur don.',
+        },
+        realizationRate: {
+          label: 'Taux de réalisation',
+          definition: 'La part du potentiel de dons supplémentaires que vous prévoyez réellement recueillir.',
+        },
+      },
+    },
+    donorLapse: {
+      tab: 'Donateurs perdus',
+      result: 'Donateurs perdus',
+      description: "Quantifiez le coût de l'attrition des donateurs qu'une meilleure gestion permettrait d'éviter.",
+      assumption: 'Le don moyen de chaque donateur perdu est perdu pour l’année, dans chaque portefeuille.',
+      fields: {
+        lapsedDonors: {
+          label: 'Nombre de donateurs perdus',
+          definition: 'Le nombre moyen de donateurs par portefeuille qui cessent de donner ou deviennent inactifs chaque année.',
+        },
+        averageGift: {
+          label: 'Don moyen',
+          definition: 'Le montant moyen des dons de ces donateurs à risque.',
+        },
+        numberOfPortfolios: {
+          label: 'Nombre de portefeuilles',
+          definition: 'Le nombre de portefeuilles de donateurs dans votre organisme.',
+        },
+      },
+    },
+    staffTurnover: {
+      tab: 'Roulement du personnel',
+      result: 'Roulement et transfert de portefeuilles',
+      description: "Estimez le coût des relations et des connaissances perdues lorsqu'un responsable des dons majeurs quitte l'organisme.",
+      assumption: 'Chaque départ entraîne un cycle complet de recrutement et d’intégration, et le portefeuille ne rapporte rien tant que la relève n’est pas pleinement opérationnelle.',
+      fields: {
+        numberOfMGOs: {
+          label: 'Nombre de responsables des dons majeurs',
+          definition: 'Le nombre de responsables des dons majeurs de votre organisme qui gèrent un portefeuille.',
+        },
+        turnoverRate: {
+          label: 'Taux de roulement annuel',
+          definition: 'Le pourcentage de responsables des dons majeurs qui quittent leur poste au cours d’une année type.',
+        },
+        monthsToRamp: {
+          label: "Mois avant la pleine productivité",
+          definition: 'Les mois entre un départ et le moment où la relève est pleinement productive avec le portefeuille, y compris la vacance du poste.',
+        },
+        recruitingCost: {
+          label: "Coût de recrutement et d'intégration",
+          definition: "Le coût du recrutement, de l'embauche et de l'intégration de chaque remplaçant.",
+        },
+        portfolioRevenue: {
+          label: 'Revenus du portefeuille à risque',
+          definition: "Les revenus qu'un portefeuille type génère en une année, qui stagnent pendant que le poste est vacant ou que la relève se forme.",
+        },
+      },
+    },
+    pipelineConversion: {
+      tab: 'Conversion des prospects',
+      result: "Pipeline d'acquisition de donateurs",
+      description: "Estimez les revenus des prospects que votre équipe de recherche repère, mais qui ne sont jamais qualifiés ni sollicités.",
+      assumption: 'Chaque prospect qualifié supplémentaire qui conclut fait un premier don de taille moyenne; les dons suivants ne sont pas comptés.',
+      fields: {
+        ratedProspects: {
+          label: 'Nombre de prospects évalués',
+          definition: 'Le nombre de prospects que votre équipe de recherche a repérés et dont elle a évalué la capacité de don.',
+        },
+        firstGiftAverage: {
+          label: 'Premier don moyen',
+          definition: "Le montant moyen d'un premier don d'un nouveau grand donateur.",
+        },
+        qualificationImprovement: {
+          label: 'Hausse du taux de qualification',
+          definition: 'Le pourcentage supplémentaire de prospects évalués que vous prévoyez qualifier grâce à de meilleurs outils et à une meilleure visibilité.',
+        },
+        closeRate: {
+          label: 'Taux de conclusion',
+          definition: 'Le pourcentage de prospects qualifiés qui font ensuite un premier don.',
+        },
+      },
+    },
+  },
+  sectionStatus: {
+    empty: 'Non commencée',
+    partial: 'En cours',
+    complete: 'Terminée',
+    invalid: 'À corriger',
+    summary: '{count} sections sur {total} terminées',
+  },
+  categories: {
+    wastedSalarySpend: 'Masse salariale gaspillée par année',
+    opportunityCost: "Coût d'opportunité",
+  },
+  assumptions: {
+    title: 'Hypothèses salariales',
+    summary: '{hours} h · {weeks} sem. · {load} % de charges',
+    intro: 'Sert à évaluer le temps dans Tâches administratives, Travail en silo et Rapports de subvention. Laissez un champ vide pour utiliser la valeur par défaut.',
+    hourlyRate: 'Le salaire est converti en taux horaire sur une année de travail de {hours} heures',
+    loadedHourlyRate: 'Le salaire, majoré de {load} % pour les avantages sociaux et les frais généraux, est converti en taux horaire sur une année de travail de {hours} heures',
+    fields: {
+      annualHours: {
+        label: 'Heures payées par année',
+        definition: "Heures payées à un employé à temps plein au cours d'une année, utilisées pour convertir les salaires en taux horaire.",
+      },
+      weeksPerYear: {
+        label: 'Semaines travaillées par année',
+        definition: "Semaines de l'année où les heures hebdomadaires se répètent; excluez les congés et vacances si vous voulez en tenir compte.",
+      },
+      overheadLoad: {
+        label: 'Avantages sociaux et frais généraux',
+        definition: 'Avantages sociaux, charges sociales et frais généraux en pourcentage du salaire; de 25 à 35 % est courant pour les OBNL.',
+      },
+    },
+  },
+  calculator: {
+    next: 'Suivant',
+    calculate: 'Calculer le RCI',
+    startOver: 'Recommencer',
+    import: 'Importer',
+    fixFields: 'Corrigez les champs en surbrillance pour calculer votre RCI.',
+    total: 'Total',
+    potentialImpact: 'Impact annuel potentiel',
+    netBenefit: 'Bénéfice net',
+    roi: 'RCI',
+    payback: 'Récupération',
+    paybackNever: 'Jamais',
+    paybackMonths: '{months} mois',
+    downloadReport: 'Télécharger le rapport',
+    export: 'Exporter',
+    exportCsv: 'CSV (tableur)',
+    copyShareLink: 'Copier le lien de partage',
+    linkCopied: 'Lien copié dans le presse-papiers',
+    linkCopyFailed: 'Impossible de copier le lien',
+    reportFailed: 'Impossible de générer le rapport. Veuillez réessayer.',
+    importFailed: "Impossible d'importer ce scénario",
+    imported: '{name} importé',
+    loaded: '{name} chargé',
+    resumeTitle: 'Reprendre là où vous étiez?',
+    resumeDescription: 'Vous avez une évaluation du RCI inachevée. Reprenez-la ou commencez-en une nouvelle.',
+    resumeDescriptionSaved: 'Vous avez une évaluation du RCI inachevée datant du {savedAt}. Reprenez-la ou commencez-en une nouvelle.',
+    resume: 'Reprendre',
+    showMath: 'Afficher le calcul de {name}',
+    liveMode: 'Résultats en direct',
+    stale: 'Les données ont changé depuis le calcul de ces résultats.',
+    recalculate: 'Recalculer',
+    partialResults: 'Résultats partiels : {count} sections sur {total} comptabilisées pour l’instant.',
+    partialImpact: 'Impact annuel partiel',
+  },
+  benchmarks: {
+    title: 'Partir de valeurs de référence',
+    size: "Taille de l'organisme",
+    sector: 'Secteur',
+    sizes: {
+      small: 'Petit',
+      medium: 'Moyen',
+      large: 'Grand',
+    },
+    sectors: {
+      higherEd: 'Enseignement supérieur',
+      healthcare: 'Santé',
+      arts: 'Arts et culture',
+      humanServices: 'Services sociaux',
+    },
+    apply: 'Remplir',
+    badge: 'Référence',
+    badgeHint: 'Une valeur type pour les organismes comme le vôtre. Saisissez la vôtre pour la remplacer.',
+  },
+  wizard: {
+    toggle: 'Étape par étape',
+    step: 'Question {step} sur {total}',
+    progress: 'Progression',
+    back: 'Retour',
+    review: 'Vérifiez vos réponses',
+    reviewStep: 'Vérification',
+    reviewIntro: 'Vérifiez vos chiffres avant le calcul. Sélectionnez une réponse pour la modifier.',
+    edit: 'Modifier {field}',
+    keyboardHint: 'Appuyez sur Entrée pour continuer, ou sur Alt + ← pour revenir en arrière.',
+  },
+  leads: {
+    title: 'Voir tous vos résultats',
+    intro: 'Parlez-nous un peu de vous pour afficher le détail complet et télécharger votre rapport.',
+    name: 'Nom',
+    email: 'Courriel professionnel',
+    organization: 'Organisme',
+    role: 'Poste',
+    submit: 'Afficher mes résultats',
+    failed: "Impossible d'envoyer vos coordonnées. Veuillez réessayer.",
+  },
+  settings: {
+    language: 'Langue',
+    currency: 'Devise',
+    numberFormat: 'Format des nombres',
+    currencies: {
+      USD: 'Dollar américain',
+      CAD: 'Dollar canadien',
+      GBP: 'Livre sterling',
+      AUD: 'Dollar australien',
+    },
+  },
+  investment: {
+    title: 'Votre investissement',
+    intro: 'Comparez l’impact au coût de la solution pour connaître votre rendement net.',
+    licenseTier: 'Forfait de licence',
+    tierPrice: '{price} / utilisateur / an',
+    seats: "Nombre d'utilisateurs",
+    implementationFee: "Frais d'implantation",
+    trainingHours: 'Heures de formation par utilisateur',
+  },
+  projection: {
+    title: 'Horizon de projection',
+    horizonYear: '1 an',
+    horizonYears: '{years} ans',
+    upgradeDecay: 'Baisse des bonifications / an',
+    salaryGrowth: 'Augmentation annuelle',
+    year: 'Année',
+    yearLabel: 'Année {year}',
+    yearShort: 'A{year}',
+    wastedSalary: 'Salaires gaspillés',
+    opportunityCost: "Coût d'opportunité",
+    annualTotal: 'Total annuel',
+    annual: 'Annuel',
+    cumulative: 'Cumulatif',
+  },
+  scenarios: {
+    title: 'Comparer des scénarios',
+    intro: 'Enregistrez ces résultats sous un nom, ajustez vos hypothèses, puis enregistrez de nouveau pour obtenir une fourchette.',
+    nameLabel: 'Nom du scénario',
+    save: 'Enregistrer le scénario',
+    section: 'Section',
+    load: 'Charger ce scénario dans le calculateur',
+    remove: 'Supprimer {name}',
+    total: 'Total',
+    relativeTo: 'Les écarts sont calculés par rapport à {name}.',
+    suggestedNames: {
+      conservative: 'Prudent',
+      expected: 'Probable',
+      optimistic: 'Optimiste',
+    },
+    numberedName: 'Scénario {number}',
+  },
+  sensitivity: {
+    title: 'Analyse de sensibilité',
+    intro: "L'écart du total lorsque chaque donnée, prise seule, est de {percent} % inférieure ou supérieure à la valeur saisie.",
+    varyBy: 'Varier de ±',
+    centered: 'Centré sur le total actuel de {total}. Les données en haut méritent le plus d’attention.',
+  },
+  monteCarlo: {
+    title: 'Mode fourchette (Monte-Carlo)',
+    intro: 'Donnez une estimation basse, probable et haute pour chaque donnée afin d’obtenir un intervalle de confiance plutôt qu’un seul chiffre.',
+    enable: 'Activer le mode fourchette',
+    points: {
+      low: 'basse',
+      likely: 'probable',
+      high: 'haute',
+    },
+    estimate: 'Estimation {point}',
+    rangeOrder: 'Gardez basse ≤ probable ≤ haute',
+    distribution: 'Distribution',
+    triangular: 'Triangulaire',
+    run: 'Lancer {count} simulations',
+    interval: '80 % des résultats simulés se situent entre {low} et {high}.',
+    simulations: 'Simulations',
+    runFailed: 'Impossible de lancer les simulations. Veuillez réessayer.',
+  },
+  report: {
+    header: 'Instil  |  Analyse du RCI de la collecte de fonds',
+    title: 'Votre analyse du RCI de la collecte de fonds',
+    prepared: 'Préparé le {date}',
+    returnOnInvestment: 'Rendement du capital investi',
+    license: 'Licence ({tier}, {seats} postes)',
+    perYear: '{amount} / an',
+    oneTimeCost: 'Mise en œuvre et formation',
+    firstYearCost: 'Coût de la première année',
+    paybackPeriod: 'Délai de récupération',
+    paybackNever: 'Non atteint',
+    paybackMonths: '{months} mois',
+    projection: 'Projection sur {years} ans',
+    projectionYear: 'Année {year} : {total}',
+    projectionCumulative: 'Cumulatif {total}',
+    inputs: 'Vos données',
+    assumptions: 'Hypothèses',
+    formulas: 'Comment chaque montant est calculé',
+    disclaimersTitle: 'Hypothèses et avertissements',
+    disclaimers: {
+      estimates: "Tous les montants sont des estimations fondées sur les valeurs saisies et ne garantissent pas les résultats futurs.",
+      workingYear: "Les coûts salariaux supposent une année de travail de {hours} heures sur {weeks} semaines et {overhead}.",
+      withOverhead: 'incluent une majoration de {load} % pour les avantages sociaux et les frais généraux',
+      withoutOverhead: 'excluent les avantages sociaux et les frais généraux',
+      opportunityCost: "Les coûts d'opportunité représentent des revenus qui pourraient être obtenus ou conservés, et non des revenus actuellement retirés du budget.",
+      currency: "Tous les montants sont en {currency}. Les résultats sont arrondis à l'unité près; les sous-totaux sont la somme des montants arrondis de chaque section.",
+    },
+    page: 'Page {page} sur {total}',
+  },
+  files: {
+    notScenarioFile: "Ce fichier n'est pas un scénario de RCI",
+    invalidJson: "Le fichier n'est pas un JSON valide",
+    needsRows: "Le fichier doit contenir une ligne d'en-tête et une ligne de données",
+    missingColumn: 'Colonne manquante : {column}',
+    unsupportedVersion: 'Version de fichier non prise en charge (attendue : {versions})',
+    unsupportedCurrency: 'Devise non prise en charge',
+  },
+  validation: {
+    required: 'Obligatoire',
+    invalidNumber: 'Entrez un nombre valide',
+    invalidEmail: 'Entrez une adresse courriel valide',
+    tooLong: 'Utilisez moins de 200 caractères',
+    wholeNumber: 'Doit être un nombre entier',
+    atLeast: 'Doit être au moins {min}',
+    atMost: 'Doit être au plus {max}',
+    positive: 'Doit être supérieur à 0',
+    notNegative: 'Ne peut pas être négatif',
+    negativeNotAllowed: 'Les valeurs négatives ne sont pas permises',
+    wholeNumbersOnly: 'Nombres entiers seulement',
+    maxDecimals: 'Utilisez au plus {digits} décimales',
+    maxWeekHours: 'Une semaine ne compte que 168 heures',
+    maxPercent: 'Ne peut pas dépasser {max} %',
+    workingWeek: 'Ne peut pas dépasser une semaine de travail de {hours} heures',
+    maxYearHours: 'Une année ne compte que 8 760 heures',
+    maxYearWeeks: 'Une année ne compte que 52 semaines',
+    workingYear: 'Ne peut pas dépasser une année de travail',
+  },
+};
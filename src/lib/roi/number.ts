@@ -0,0 +1,177 @@
+import { DEFAULT_MONEY_FORMAT, type MoneyFormat } from './currency';
+import { formatMessage, type ValidationMessages } from './i18n';
+import { en } from './messages/en';
+import type { FieldValue } from './types';
+
+export interface NumberInputOptions {
+  locale?: string;
+  // Decimal places the field accepts; 0 for whole numbers only
+  maxFractionDigits?: number;
+  allowNegative?: boolean;
+  // When false, misplaced group separators are ignored rather than rejected. Used while
+  // editing already formatted text, where deleting a digit leaves groups of the wrong size.
+  strictGrouping?: boolean;
+  // Wording for parse errors; defaults to English
+  messages?: ValidationMessages;
+}
+
+// A parsed value, or an error describing why the text couldn't be read (value is then '')
+export interface NumberParseResult {
+  value: FieldValue;
+  error: string | null;
+}
+
+interface NumberParts {
+  negative: boolean;
+  integer: string;
+  hasDecimal: boolean;
+  fraction: string;
+}
+
+const DEFAULT_LOCALE = 'en-US';
+
+// Spaces some locales (fr-FR, for one) use as group separators
+const SPACE_CHARS = /[\s\u00a0\u202f]/g;
+
+// Symbols users commonly type around a number that carry no numeric meaning, including
+// prefixed dollar signs such as "CA$", "A$" and "US$"
+const ADORNMENT_CHARS = /(?:CA|US|A)?\$|[€£¥%]/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Group and decimal separators for a locale, e.g. "," and "." for en-US
+export const getNumberSeparators = (locale: string = DEFAULT_LOCALE) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+  };
+};
+
+const isSpace = (value: string) => value.replace(SPACE_CHARS, '') === '';
+
+// Break typed text into sign, integer and fraction digits, or null if it can't be read
+const splitNumber = (
+  text: string,
+  { locale = DEFAULT_LOCALE, strictGrouping = true }: NumberInputOptions
+): NumberParts | null => {
+  const { group, decimal } = getNumberSeparators(locale);
+  const groupIsSpace = isSpace(group);
+
+  let cleaned = text.trim().replace(ADORNMENT_CHARS, '');
+  // Whitespace is only meaningful as a group separator in locales that group with spaces
+  cleaned = groupIsSpace ? cleaned.replace(SPACE_CHARS, ' ').trim() : cleaned.trim();
+
+  const negative = /^[-−]/.test(cleaned);
+  if (negative) cleaned = cleaned.slice(1);
+
+  const groupPattern = groupIsSpace ? ' ' : group;
+  const allowed = new RegExp(`^[0-9${escapeRegExp(groupPattern)}${escapeRegExp(decimal)}]*$`);
+  if (!allowed.test(cleaned)) return null;
+
+  const decimalParts = cleaned.split(decimal);
+  if (decimalParts.length > 2) return null;
+
+  const [integerText, fraction = ''] = decimalParts;
+  // A group separator after the decimal point means the value was written for another locale
+  if (fraction.includes(groupPattern)) return null;
+
+  const groups = integerText.split(groupPattern);
+  if (strictGrouping && groups.length > 1) {
+    const [first, ...rest] = groups;
+    const wellFormed = /^\d{1,3}$/.test(first) && rest.every((chunk) => /^\d{3}$/.test(chunk));
+    if (!wellFormed) return null;
+  }
+
+  const integer = groups.join('');
+  if (integer === '' && fraction === '') return null;
+
+  return { negative, integer, hasDecimal: decimalParts.length === 2, fraction };
+};
+
+// Parse user-typed text into a field value, reporting anything that can't be read unambiguously
+export const parseNumberInput = (text: string, options: NumberInputOptions = {}): NumberParseResult => {
+  if (text.trim() === '') return { value: '', error: null };
+
+  const { maxFractionDigits = 0, allowNegative = false, messages = en.validation } = options;
+  const parts = splitNumber(text, options);
+  if (!parts) return { value: '', error: messages.invalidNumber };
+
+  if (parts.negative && !allowNegative) return { value: '', error: messages.negativeNotAllowed };
+  if (parts.fraction.length > maxFractionDigits) {
+    return {
+      value: '',
+      error: maxFractionDigits === 0 ? messages.wholeNumbersOnly : formatMessage(messages.maxDecimals, { digits: maxFractionDigits }),
+    };
+  }
+
+  const value = Number(`${parts.negative ? '-' : ''}${parts.integer || '0'}.${parts.fraction || '0'}`);
+  return Number.isFinite(value) ? { value, error: null } : { value: '', error: messages.invalidNumber };
+};
+
+// Regroup text the user is typing, keeping a trailing decimal point or zeros they haven't finished
+export const formatNumberInput = (text: string, options: NumberInputOptions = {}): string => {
+  const { locale = DEFAULT_LOCALE } = options;
+  const parts = splitNumber(text, options);
+  if (!parts) return text;
+
+  const { decimal } = getNumberSeparators(locale);
+  const integer = parts.integer === ''
+    ? ''
+    : new Intl.NumberFormat(locale, { maximumFractionDigits: 0 }).format(Number(parts.integer));
+
+  return `${parts.negative ? '-' : ''}${integer}${parts.hasDecimal ? decimal + parts.fraction : ''}`;
+};
+
+// Display text for a stored field value
+export const formatFieldValue = (value: FieldValue, options: NumberInputOptions = {}): string => {
+  if (value === '') return '';
+  const { locale = DEFAULT_LOCALE, maxFractionDigits = 0 } = options;
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: maxFractionDigits }).format(value);
+};
+
+// Whole-currency display used for every impact figure
+export const formatCurrency = (value: number, format: MoneyFormat = DEFAULT_MONEY_FORMAT): string => {
+  return new Intl.NumberFormat(format.locale, {
+    style: 'currency',
+    currency: format.currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+// Short form for chart axes, e.g. "$1.2M"
+export const formatCompactCurrency = (value: number, format: MoneyFormat = DEFAULT_MONEY_FORMAT): string => {
+  return new Intl.NumberFormat(format.locale, {
+    style: 'currency',
+    currency: format.currency,
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value);
+};
+
+// Plain number display in the format's locale, e.g. "2,080" or "2 080"
+export const formatNumber = (value: number, format: MoneyFormat = DEFAULT_MONEY_FORMAT, maxFractionDigits = 2): string => {
+  return new Intl.NumberFormat(format.locale, { maximumFractionDigits: maxFractionDigits }).format(value);
+};
+
+// Characters that survive reformatting, used to keep the caret next to the same digit
+const isSignificantChar = (char: string, decimal: string) => /[0-9\-−]/.test(char) || char === decimal;
+
+// Map a caret position in the typed text to the equivalent position in its reformatted version
+export const mapCaretPosition = (
+  rawText: string,
+  caret: number,
+  formattedText: string,
+  locale: string = DEFAULT_LOCALE
+): number => {
+  const { decimal } = getNumberSeparators(locale);
+  const significantBefore = [...rawText.slice(0, caret)].filter((char) => isSignificantChar(char, decimal)).length;
+
+  let seen = 0;
+  for (let i = 0; i < formattedText.length; i++) {
+    if (seen === significantBefore) return i;
+    if (isSignificantChar(formattedText[i], decimal)) seen++;
+  }
+  return formattedText.length;
+};
@@ -0,0 +1,71 @@
+import { computeImpacts, SECTION_IDS, summarizeSections } from './calculate';
+import { SECTION_DEFINITIONS } from './sections';
+import type { CalculatorInputs, ImpactBreakdown, SectionId } from './types';
+
+export const PROJECTION_HORIZONS = [1, 3, 5, 10] as const;
+export type ProjectionHorizon = (typeof PROJECTION_HORIZONS)[number];
+
+export interface ProjectionOptions {
+  years: ProjectionHorizon;
+  // Share of an upgrade's extra giving lost each following year, as a percentage
+  upgradeDecayRate: number;
+  // Annual salary increase applied to the salary-based sections, as a percentage
+  salaryGrowthRate: number;
+}
+
+export const DEFAULT_PROJECTION_OPTIONS: ProjectionOptions = {
+  years: 1,
+  upgradeDecayRate: 20,
+  salaryGrowthRate: 3,
+};
+
+export interface ProjectionYear extends ImpactBreakdown {
+  year: number;
+  // Running total of every year up to and including this one
+  cumulative: number;
+}
+
+// Each year's new upgrades add to the ones still paying off from earlier years
+const upgradeGain = (base: number, year: number, decayRate: number): number => {
+  const retained = 1 - decayRate / 100;
+  let total = 0;
+  for (let age = 0; age < year; age++) {
+    total += base * Math.pow(retained, age);
+  }
+  return total;
+};
+
+// How a section's one-year impact carries into a later year of the projection
+const projectSection = (section: SectionId, base: number, year: number, options: ProjectionOptions): number => {
+  switch (SECTION_DEFINITIONS[section].growth) {
+    case 'salary':
+      return base * Math.pow(1 + options.salaryGrowthRate / 100, year - 1);
+    case 'upgrade':
+      return upgradeGain(base, year, options.upgradeDecayRate);
+    case 'cumulative':
+      // A donor who lapses is lost for every year that follows, so each year's cohort stacks
+      return base * year;
+    case 'flat':
+      return base;
+  }
+};
+
+// Year-by-year impact over the chosen horizon, starting from the one-year figures
+export const projectImpacts = (inputs: CalculatorInputs, options: ProjectionOptions): ProjectionYear[] => {
+  const base = computeImpacts(inputs);
+  const years: ProjectionYear[] = [];
+  let cumulative = 0;
+
+  for (let year = 1; year <= options.years; year++) {
+    const sections = {} as Record<SectionId, number>;
+    for (const id of SECTION_IDS) {
+      sections[id] = Math.round(projectSection(id, base.sections[id], year, options));
+    }
+
+    const breakdown = summarizeSections(sections);
+    cumulative += breakdown.total;
+    years.push({ ...breakdown, year, cumulative });
+  }
+
+  return years;
+};
@@ -0,0 +1,316 @@
+import type { jsPDF } from 'jspdf';
+import { ASSUMPTION_FIELDS, resolveAssumptions } from './assumptions';
+import { computeImpacts, getFieldValue, IMPACT_CATEGORIES, SECTION_CATEGORIES, SECTION_FIELDS, SECTION_IDS } from './calculate';
+import { ASSUMPTION_UNITS, FIELD_UNITS, SECTION_COLORS, type FieldUnit } from './content';
+import { explainSection, formatFieldDisplay } from './explain';
+import { formatMessage, type Messages } from './i18n';
+import { getLicenseTier, type InvestmentInputs, type InvestmentSummary } from './investment';
+import { DEFAULT_MONEY_FORMAT, type MoneyFormat } from './currency';
+import { en } from './messages/en';
+import { formatCurrency, formatNumber } from './number';
+import type { ProjectionYear } from './projection';
+import type { CalculatorInputs, ImpactCategory } from './types';
+
+export interface ReportData {
+  inputs: CalculatorInputs;
+  // Only included once the investment section has been filled in
+  investment?: InvestmentInputs | null;
+  investmentSummary?: InvestmentSummary | null;
+  // Only included for multi-year horizons
+  projection?: ProjectionYear[] | null;
+  // Currency and locale for every figure; defaults to US dollars
+  format?: MoneyFormat;
+  // Language the report is written in; defaults to English
+  messages?: Messages;
+  generatedAt?: Date;
+}
+
+const BRAND_PURPLE = '#302661';
+const BRAND_AQUA = '#52d7c3';
+const TEXT_MUTED = '#6b7280';
+
+const PAGE_MARGIN = 18;
+const HEADER_HEIGHT = 16;
+
+export const getReportDisclaimers = (
+  inputs: CalculatorInputs,
+  messages: Messages = en,
+  format: MoneyFormat = DEFAULT_MONEY_FORMAT
+): string[] => {
+  const m = messages.report.disclaimers;
+  const { annualHours, weeksPerYear, overheadLoad } = resolveAssumptions(inputs.assumptions);
+  const overhead = overheadLoad > 0
+    ? formatMessage(m.withOverhead, { load: formatNumber(overheadLoad, format) })
+    : m.withoutOverhead;
+  return [
+    m.estimates,
+    formatMessage(m.workingYear, {
+      hours: formatNumber(annualHours, format),
+      weeks: formatNumber(weeksPerYear, format),
+      overhead,
+    }),
+    m.opportunityCost,
+    formatMessage(m.currency, { currency: format.currency }),
+  ];
+};
+
+// The standard PDF fonts only cover Latin-1, so the narrow no-break space some locales group
+// digits with is swapped for a regular no-break space
+const toPdfText = (value: string) => value.replace(/\u202f/g, '\u00a0');
+
+// Tracks the write position and starts a new branded page when content would overflow
+const createLayout = (doc: jsPDF, header: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = 0;
+
+  const drawHeader = () => {
+    doc.setFillColor(BRAND_PURPLE);
+    doc.rect(0, 0, pageWidth, HEADER_HEIGHT, 'F');
+    doc.setFillColor(BRAND_AQUA);
+    doc.rect(0, HEADER_HEIGHT, pageWidth, 1, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor('#ffffff');
+    doc.text(toPdfText(header), PAGE_MARGIN, 10.5);
+    y = HEADER_HEIGHT + 12;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      drawHeader();
+    }
+  };
+
+  const text = (value: string, { size = 10, bold = false, color = '#111827', indent = 0, gap = 1.5 } = {}) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+    const lines: string[] = doc.splitTextToSize(toPdfText(value), contentWidth - indent);
+    const lineHeight = size * 0.45;
+    ensureSpace(lines.length * lineHeight);
+    doc.text(lines, PAGE_MARGIN + indent, y);
+    y += lines.length * lineHeight + gap;
+  };
+
+  // Headings keep room for some content below them so they aren't stranded at the foot of a page
+  const heading = (value: string) => {
+    ensureSpace(32);
+    y += 4;
+    text(value, { size: 14, bold: true, color: BRAND_PURPLE, gap: 3 });
+  };
+
+  // Label on the left, value right-aligned
+  const row = (label: string, value: string, { bold = false, indent = 0 } = {}) => {
+    ensureSpace(6);
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor('#111827');
+    doc.text(toPdfText(label), PAGE_MARGIN + indent, y);
+    doc.text(toPdfText(value), pageWidth - PAGE_MARGIN, y, { align: 'right' });
+    y += 5.5;
+  };
+
+  const rule = () => {
+    doc.setDrawColor('#e5e7eb');
+    doc.line(PAGE_MARGIN, y - 3.5, pageWidth - PAGE_MARGIN, y - 3.5);
+  };
+
+  return {
+    drawHeader,
+    ensureSpace,
+    text,
+    heading,
+    row,
+    rule,
+    pageWidth,
+    contentWidth,
+    get y() {
+      return y;
+    },
+    set y(value: number) {
+      y = value;
+    },
+  };
+};
+
+// Pie slices drawn as filled polygons, since jsPDF has no arc primitive
+const drawPie = (doc: jsPDF, cx: number, cy: number, radius: number, slices: { value: number; color: string }[]) => {
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  if (total <= 0) return;
+
+  let angle = -Math.PI / 2;
+  for (const slice of slices) {
+    const sweep = (slice.value / total) * Math.PI * 2;
+    const steps = Math.max(2, Math.ceil(sweep / (Math.PI / 90)));
+    const points: [number, number][] = [[cx, cy]];
+    for (let i = 0; i <= steps; i++) {
+      const a = angle + (sweep * i) / steps;
+      points.push([cx + radius * Math.cos(a), cy + radius * Math.sin(a)]);
+    }
+
+    const deltas = points.slice(1).map(([x, y], i) => [x - points[i][0], y - points[i][1]]);
+    doc.setFillColor(slice.color);
+    doc.lines(deltas, cx, cy, [1, 1], 'F', true);
+    angle += sweep;
+  }
+};
+
+const categorySections = (category: ImpactCategory) =>
+  SECTION_IDS.filter((id) => SECTION_CATEGORIES[id] === category);
+
+// Build the multi-page report entirely in the browser, so it also works inside the embedded iframe
+export const generateReport = async (data: ReportData): Promise<jsPDF> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const { inputs, format = DEFAULT_MONEY_FORMAT, messages = en } = data;
+  const m = messages.report;
+  const layout = createLayout(doc, m.header);
+  const money = (value: number) => formatCurrency(value, format);
+  const impacts = computeImpacts(inputs);
+  const generatedAt = data.generatedAt ?? new Date();
+
+  // Summary
+  layout.drawHeader();
+  layout.text(m.title, { size: 20, bold: true, color: BRAND_PURPLE, gap: 2 });
+  layout.text(
+    formatMessage(m.prepared, { date: generatedAt.toLocaleDateString(format.locale, { dateStyle: 'long' }) }),
+    { size: 9, color: TEXT_MUTED, gap: 8 }
+  );
+
+  layout.text(money(impacts.total), { size: 28, bold: true, color: BRAND_PURPLE, gap: 1 });
+  layout.text(messages.calculator.potentialImpact, { size: 10, color: TEXT_MUTED, gap: 6 });
+
+  for (const category of IMPACT_CATEGORIES) {
+    layout.text(messages.categories[category], { size: 11, bold: true, gap: 2 });
+    for (const id of categorySections(category)) {
+      layout.row(messages.sections[id].result, money(impacts.sections[id]), { indent: 4 });
+    }
+    layout.y += 1;
+    layout.rule();
+    layout.row(messages.calculator.total, money(impacts[category]), { bold: true, indent: 4 });
+    layout.y += 3;
+  }
+
+  // Pie chart with legend
+  const pieRadius = 22;
+  layout.ensureSpace(pieRadius * 2 + 10);
+  const pieY = layout.y + pieRadius + 4;
+  drawPie(
+    doc,
+    PAGE_MARGIN + pieRadius,
+    pieY,
+    pieRadius,
+    SECTION_IDS.map((id) => ({ value: impacts.sections[id], color: SECTION_COLORS[id] }))
+  );
+  let legendY = pieY - pieRadius + 6;
+  for (const id of SECTION_IDS) {
+    const share = impacts.total > 0 ? Math.round((impacts.sections[id] / impacts.total) * 100) : 0;
+    doc.setFillColor(SECTION_COLORS[id]);
+    doc.rect(PAGE_MARGIN + pieRadius * 2 + 12, legendY - 3, 3.5, 3.5, 'F');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor('#111827');
+    doc.text(toPdfText(`${messages.sections[id].result} (${share}%)`), PAGE_MARGIN + pieRadius * 2 + 18, legendY);
+    legendY += 7;
+  }
+  layout.y = pieY + pieRadius + 8;
+
+  if (data.investment && data.investmentSummary) {
+    const { investment, investmentSummary: summary } = data;
+    layout.heading(m.returnOnInvestment);
+    layout.row(
+      formatMessage(m.license, {
+        tier: getLicenseTier(investment.licenseTier).name,
+        seats: formatNumber(Number(investment.seats), format),
+      }),
+      formatMessage(m.perYear, { amount: money(summary.annualLicenseCost) })
+    );
+    layout.row(m.oneTimeCost, money(summary.oneTimeCost));
+    layout.row(m.firstYearCost, money(summary.firstYearCost), { bold: true });
+    layout.y += 2;
+    layout.row(messages.calculator.netBenefit, money(summary.netBenefit), { bold: true });
+    layout.row(messages.calculator.roi, `${formatNumber(Math.round(summary.roiPercent), format)}%`);
+    layout.row(
+      m.paybackPeriod,
+      summary.paybackMonths === null
+        ? m.paybackNever
+        : formatMessage(m.paybackMonths, { months: formatNumber(summary.paybackMonths, format, 1) })
+    );
+  }
+
+  if (data.projection && data.projection.length > 1) {
+    layout.heading(formatMessage(m.projection, { years: data.projection.length }));
+    for (const year of data.projection) {
+      layout.row(
+        formatMessage(m.projectionYear, { year: year.year, total: money(year.total) }),
+        formatMessage(m.projectionCumulative, { total: money(year.cumulative) })
+      );
+    }
+  }
+
+  // Inputs with their definitions
+  doc.addPage();
+  layout.drawHeader();
+  layout.heading(m.inputs);
+  for (const id of SECTION_IDS) {
+    const section = messages.sections[id];
+    layout.ensureSpace(30);
+    layout.text(section.result, { size: 12, bold: true, gap: 1 });
+    layout.text(section.description, { size: 9, color: TEXT_MUTED, gap: 3 });
+    for (const field of SECTION_FIELDS[id] as string[]) {
+      const value = getFieldValue(inputs, id, field);
+      const unit = (FIELD_UNITS[id] as Record<string, FieldUnit>)[field];
+      const text = (section.fields as Record<string, { label: string; definition: string }>)[field];
+      layout.row(text.label, formatFieldDisplay(value, unit, format), { indent: 4 });
+      layout.text(text.definition, { size: 8, color: TEXT_MUTED, indent: 4, gap: 2 });
+    }
+    layout.y += 3;
+  }
+
+  layout.ensureSpace(30);
+  layout.text(m.assumptions, { size: 12, bold: true, gap: 3 });
+  for (const field of ASSUMPTION_FIELDS) {
+    const text = messages.assumptions.fields[field];
+    layout.row(text.label, formatFieldDisplay(resolveAssumptions(inputs.assumptions)[field], ASSUMPTION_UNITS[field], format), { indent: 4 });
+    layout.text(text.definition, { size: 8, color: TEXT_MUTED, indent: 4, gap: 2 });
+  }
+  layout.y += 3;
+
+  // Formulas with the numbers plugged in
+  layout.heading(m.formulas);
+  for (const id of SECTION_IDS) {
+    const { formula, assumption } = explainSection(inputs, id, messages, format);
+    layout.ensureSpace(20);
+    layout.text(messages.sections[id].result, { size: 11, bold: true, gap: 1 });
+    layout.text(formula, { size: 10, color: BRAND_PURPLE, indent: 4, gap: 1 });
+    layout.text(assumption, { size: 8, color: TEXT_MUTED, indent: 4, gap: 4 });
+  }
+
+  layout.heading(m.disclaimersTitle);
+  for (const disclaimer of getReportDisclaimers(inputs, messages, format)) {
+    layout.text(`•  ${disclaimer}`, { size: 9, color: TEXT_MUTED, gap: 2 });
+  }
+
+  // Page numbers once the page count is known
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(TEXT_MUTED);
+    doc.text(formatMessage(m.page, { page, total: pageCount }), layout.pageWidth - PAGE_MARGIN, doc.internal.pageSize.getHeight() - 8, { align: 'right' });
+  }
+
+  return doc;
+};
+
+export const REPORT_FILE_NAME = 'instil-roi-report.pdf';
+
+// Generate the report and hand it to the browser as a download
+export const downloadReport = async (data: ReportData): Promise<void> => {
+  const doc = await generateReport(data);
+  doc.save(REPORT_FILE_NAME);
+};
@@ -0,0 +1,69 @@
+import { computeImpacts, SECTION_IDS } from './calculate';
+import { DEFAULT_MONEY_FORMAT, type MoneyFormat } from './currency';
+import { formatMessage, type Messages } from './i18n';
+import { en } from './messages/en';
+import type { CalculatorInputs, ImpactBreakdown, SectionId } from './types';
+
+// A named set of inputs kept for side-by-side comparison
+export interface SavedScenario {
+  id: string;
+  name: string;
+  inputs: CalculatorInputs;
+  // Currency the figures were entered in, restored when the scenario is loaded
+  format: MoneyFormat;
+  savedAt: number;
+}
+
+export interface ScenarioComparisonColumn {
+  scenario: SavedScenario;
+  impacts: ImpactBreakdown;
+  // Difference from the baseline (first) scenario, per section and in total
+  sectionDeltas: Record<SectionId, number>;
+  totalDelta: number;
+  // Whether it is in the baseline's currency; differences across currencies mean nothing
+  comparable: boolean;
+}
+
+// Offers the suggested names in order, then numbered ones once they are all taken
+export const suggestScenarioName = (scenarios: SavedScenario[], messages: Messages = en): string => {
+  const used = new Set(scenarios.map((scenario) => scenario.name));
+  const { suggestedNames, numberedName } = messages.scenarios;
+  return (
+    Object.values(suggestedNames).find((name) => !used.has(name)) ??
+    formatMessage(numberedName, { number: scenarios.length + 1 })
+  );
+};
+
+export const createScenario = (
+  name: string,
+  inputs: CalculatorInputs,
+  format: MoneyFormat = DEFAULT_MONEY_FORMAT,
+  savedAt = Date.now()
+): SavedScenario => ({
+  id: `${savedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  inputs,
+  format,
+  savedAt,
+});
+
+// Impacts for each scenario alongside its difference from the first one
+export const compareScenarios = (scenarios: SavedScenario[]): ScenarioComparisonColumn[] => {
+  const columns = scenarios.map((scenario) => ({ scenario, impacts: computeImpacts(scenario.inputs) }));
+  const baseline = columns[0]?.impacts;
+  const baselineCurrency = scenarios[0]?.format.currency;
+
+  return columns.map(({ scenario, impacts }) => {
+    const sectionDeltas = {} as Record<SectionId, number>;
+    for (const id of SECTION_IDS) {
+      sectionDeltas[id] = impacts.sections[id] - baseline.sections[id];
+    }
+    return {
+      scenario,
+      impacts,
+      sectionDeltas,
+      totalDelta: impacts.total - baseline.total,
+      comparable: scenario.format.currency === baselineCurrency,
+    };
+  });
+};
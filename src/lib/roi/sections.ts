@@ -0,0 +1,280 @@
+import { DEFAULT_ASSUMPTIONS, loadedHourlyRate } from './assumptions';
+import type { FieldUnit } from './content';
+import type {
+  AdminWasteInputs,
+  CalculatorInputs,
+  DonorLapseInputs,
+  FieldValue,
+  GrantReportingInputs,
+  ImpactCategory,
+  MissedUpgradesInputs,
+  PipelineConversionInputs,
+  ResolvedAssumptions,
+  SectionId,
+  SiloedCollaborationInputs,
+  StaffTurnoverInputs,
+} from './types';
+
+// What a field holds, which decides how it is entered, validated and displayed
+export type FieldType =
+  // Whole number of people, donors, etc.
+  | 'count'
+  // Non-negative number that may be an average, e.g. donors lapsed per portfolio
+  | 'amount'
+  | 'money'
+  // Hours in a week, checked against the paid working week
+  | 'weeklyHours'
+  // Hours for a single task, e.g. assembling one report
+  | 'hours'
+  | 'percentage';
+
+export interface SectionField<F extends string = string> {
+  id: F;
+  type: FieldType;
+  // Smallest count accepted; counts default to at least 1
+  min?: number;
+  // Example value shown while the input is empty
+  placeholder: number;
+}
+
+// How a section's one-year impact carries into later years of a projection
+export type SectionGrowth =
+  // Salary costs rise with the annual raise
+  | 'salary'
+  // Each year's upgrades keep paying off, less the decay rate
+  | 'upgrade'
+  // A donor who is lost stays lost, so each year's losses stack
+  | 'cumulative'
+  // The same cost comes round again every year
+  | 'flat';
+
+// Pieces for writing a section's formula out with the user's own numbers
+export interface ExplainContext<F extends string = string> {
+  // A field's value with its unit, e.g. "$125,000"
+  field: (id: F) => string;
+  // Hourly cost of a salary field, e.g. "$125,000 × 1.3 / 2,080"
+  hourlyRate: (id: F) => string;
+  // Working weeks in the year
+  weeks: string;
+  // The section's result
+  result: string;
+}
+
+// Everything the calculator needs to know about a section; its copy, including what its formula
+// assumes, lives in the message catalogs under the same id. Adding a section means an inputs type,
+// an entry here and its copy.
+export interface SectionDefinition<K extends SectionId> {
+  id: K;
+  category: ImpactCategory;
+  color: string;
+  // Input fields, in display order
+  fields: SectionField<keyof CalculatorInputs[K] & string>[];
+  // One-year impact; empty fields count as zero
+  calculate: (inputs: CalculatorInputs[K], assumptions: ResolvedAssumptions) => number;
+  growth: SectionGrowth;
+  // The formula written out with the user's numbers
+  formula: (context: ExplainContext<keyof CalculatorInputs[K] & string>) => string;
+}
+
+// Any one section's definition, for code that walks every section
+export type AnySectionDefinition = { [K in SectionId]: SectionDefinition<K> }[SectionId];
+
+export const FIELD_TYPE_UNITS: Record<FieldType, FieldUnit> = {
+  count: 'count',
+  amount: 'count',
+  money: 'currency',
+  weeklyHours: 'hours',
+  hours: 'hours',
+  percentage: 'percent',
+};
+
+// Decimal places accepted when typing a value
+export const getFieldDecimals = (type: FieldType): number => (type === 'count' ? 0 : 2);
+
+// Empty fields count as zero so partially filled sections still produce a number
+const toNumber = (value: FieldValue): number => Number(value);
+
+// Cost of time fundraisers spend on manual data entry
+export const calculateAdminWaste = (
+  inputs: AdminWasteInputs,
+  assumptions: ResolvedAssumptions = DEFAULT_ASSUMPTIONS
+): number => {
+  return (
+    loadedHourlyRate(inputs.annualSalary, assumptions) *
+    toNumber(inputs.hoursPerWeek) *
+    assumptions.weeksPerYear *
+    toNumber(inputs.numberOfMGOs)
+  );
+};
+
+// Cost of hours lost to siloed information across the team
+export const calculateSiloedCollaboration = (
+  inputs: SiloedCollaborationInputs,
+  assumptions: ResolvedAssumptions = DEFAULT_ASSUMPTIONS
+): number => {
+  return (
+    loadedHourlyRate(inputs.annualSalary, assumptions) *
+    toNumber(inputs.hoursWasted) *
+    assumptions.weeksPerYear *
+    toNumber(inputs.numberOfUsers)
+  );
+};
+
+// Cost of staff time spent assembling grant reports from scattered data
+export const calculateGrantReporting = (
+  inputs: GrantReportingInputs,
+  assumptions: ResolvedAssumptions = DEFAULT_ASSUMPTIONS
+): number => {
+  return (
+    loadedHourlyRate(inputs.annualSalary, assumptions) *
+    toNumber(inputs.activeGrants) *
+    toNumber(inputs.reportsPerGrant) *
+    toNumber(inputs.hoursPerReport)
+  );
+};
+
+// Additional revenue from upgrading donors who have capacity to give more
+export const calculateMissedUpgrades = (inputs: MissedUpgradesInputs): number => {
+  return (
+    toNumber(inputs.upgradableDonors) *
+    toNumber(inputs.averageGiftSize) *
+    (toNumber(inputs.upgradePercentage) / 100) *
+    (toNumber(inputs.realizationRate) / 100)
+  );
+};
+
+// Revenue lost each year from donors who lapse across all portfolios
+export const calculateDonorLapse = (inputs: DonorLapseInputs): number => {
+  const lostDonorValue = toNumber(inputs.lapsedDonors) * toNumber(inputs.averageGift);
+  return lostDonorValue * toNumber(inputs.numberOfPortfolios);
+};
+
+// Recruiting costs and portfolio revenue lost while a departed fundraiser's replacement ramps up
+export const calculateStaffTurnover = (inputs: StaffTurnoverInputs): number => {
+  const departures = toNumber(inputs.numberOfMGOs) * (toNumber(inputs.turnoverRate) / 100);
+  const vacancyLoss = toNumber(inputs.portfolioRevenue) * (toNumber(inputs.monthsToRamp) / 12);
+  return departures * (toNumber(inputs.recruitingCost) + vacancyLoss);
+};
+
+// First gifts from rated prospects who would now be qualified and closed
+export const calculatePipelineConversion = (inputs: PipelineConversionInputs): number => {
+  return (
+    toNumber(inputs.ratedProspects) *
+    (toNumber(inputs.qualificationImprovement) / 100) *
+    (toNumber(inputs.closeRate) / 100) *
+    toNumber(inputs.firstGiftAverage)
+  );
+};
+
+// Every section, in the order they are presented to the user
+export const SECTION_DEFINITIONS: { [K in SectionId]: SectionDefinition<K> } = {
+  adminWaste: {
+    id: 'adminWaste',
+    category: 'wastedSalarySpend',
+    color: '#6A1B9A', // Deep purple
+    fields: [
+      { id: 'numberOfMGOs', type: 'count', placeholder: 4 },
+      { id: 'annualSalary', type: 'money', placeholder: 125000 },
+      { id: 'hoursPerWeek', type: 'weeklyHours', placeholder: 15 },
+    ],
+    calculate: calculateAdminWaste,
+    growth: 'salary',
+    formula: ({ field, hourlyRate, weeks, result }) =>
+      `${hourlyRate('annualSalary')} × ${field('hoursPerWeek')} × ${weeks} × ${field('numberOfMGOs')} = ${result}`,
+  },
+  siloedCollaboration: {
+    id: 'siloedCollaboration',
+    category: 'wastedSalarySpend',
+    color: '#8E24AA', // Medium purple
+    fields: [
+      { id: 'annualSalary', type: 'money', placeholder: 75000 },
+      { id: 'hoursWasted', type: 'weeklyHours', placeholder: 5 },
+      { id: 'numberOfUsers', type: 'count', placeholder: 2 },
+    ],
+    calculate: calculateSiloedCollaboration,
+    growth: 'salary',
+    formula: ({ field, hourlyRate, weeks, result }) =>
+      `${hourlyRate('annualSalary')} × ${field('hoursWasted')} × ${weeks} × ${field('numberOfUsers')} = ${result}`,
+  },
+  grantReporting: {
+    id: 'grantReporting',
+    category: 'wastedSalarySpend',
+    color: '#4A148C', // Darkest purple
+    fields: [
+      { id: 'activeGrants', type: 'count', placeholder: 12 },
+      { id: 'reportsPerGrant', type: 'count', placeholder: 2 },
+      { id: 'hoursPerReport', type: 'hours', placeholder: 20 },
+      { id: 'annualSalary', type: 'money', placeholder: 70000 },
+    ],
+    calculate: calculateGrantReporting,
+    growth: 'salary',
+    formula: ({ field, hourlyRate, result }) =>
+      `${hourlyRate('annualSalary')} × ${field('activeGrants')} × ${field('reportsPerGrant')} × ${field('hoursPerReport')} = ${result}`,
+  },
+  missedUpgrades: {
+    id: 'missedUpgrades',
+    category: 'opportunityCost',
+    color: '#AB47BC', // Light purple
+    fields: [
+      { id: 'upgradableDonors', type: 'count', min: 0, placeholder: 65 },
+      { id: 'averageGiftSize', type: 'money', placeholder: 10000 },
+      { id: 'upgradePercentage', type: 'percentage', placeholder: 50 },
+      { id: 'realizationRate', type: 'percentage', placeholder: 50 },
+    ],
+    calculate: calculateMissedUpgrades,
+    growth: 'upgrade',
+    formula: ({ field, result }) =>
+      `${field('upgradableDonors')} × ${field('averageGiftSize')} × ${field('upgradePercentage')} × ${field('realizationRate')} = ${result}`,
+  },
+  donorLapse: {
+    id: 'donorLapse',
+    category: 'opportunityCost',
+    color: '#42F2F7', // Aqua
+    fields: [
+      { id: 'lapsedDonors', type: 'amount', placeholder: 15 },
+      { id: 'averageGift', type: 'money', placeholder: 10000 },
+      { id: 'numberOfPortfolios', type: 'count', placeholder: 2 },
+    ],
+    calculate: calculateDonorLapse,
+    growth: 'cumulative',
+    formula: ({ field, result }) =>
+      `${field('lapsedDonors')} × ${field('averageGift')} × ${field('numberOfPortfolios')} = ${result}`,
+  },
+  staffTurnover: {
+    id: 'staffTurnover',
+    category: 'opportunityCost',
+    color: '#00ACC1', // Deep aqua
+    fields: [
+      { id: 'numberOfMGOs', type: 'count', placeholder: 4 },
+      { id: 'turnoverRate', type: 'percentage', placeholder: 20 },
+      { id: 'monthsToRamp', type: 'amount', placeholder: 9 },
+      { id: 'recruitingCost', type: 'money', placeholder: 30000 },
+      { id: 'portfolioRevenue', type: 'money', placeholder: 1000000 },
+    ],
+    calculate: calculateStaffTurnover,
+    growth: 'flat',
+    formula: ({ field, result }) =>
+      `${field('numberOfMGOs')} × ${field('turnoverRate')} × (${field('recruitingCost')} + ${field('portfolioRevenue')} × ${field('monthsToRamp')} / 12) = ${result}`,
+  },
+  pipelineConversion: {
+    id: 'pipelineConversion',
+    category: 'opportunityCost',
+    color: '#80DEEA', // Pale aqua
+    fields: [
+      { id: 'ratedProspects', type: 'count', min: 0, placeholder: 200 },
+      { id: 'firstGiftAverage', type: 'money', placeholder: 5000 },
+      { id: 'qualificationImprovement', type: 'percentage', placeholder: 10 },
+      { id: 'closeRate', type: 'percentage', placeholder: 25 },
+    ],
+    calculate: calculatePipelineConversion,
+    growth: 'flat',
+    formula: ({ field, result }) =>
+      `${field('ratedProspects')} × ${field('qualificationImprovement')} × ${field('closeRate')} × ${field('firstGiftAverage')} = ${result}`,
+  },
+};
+
+export const getSectionDefinition = <K extends SectionId>(section: K): SectionDefinition<K> => SECTION_DEFINITIONS[section];
+
+// A field's definition, looked up by name for code that walks every field generically
+export const getSectionField = (section: SectionId, field: string): SectionField | undefined =>
+  (SECTION_DEFINITIONS[section] as AnySectionDefinition).fields.find((definition: SectionField) => definition.id === field);
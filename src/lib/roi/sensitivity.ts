@@ -0,0 +1,48 @@
+import { computeImpacts, getFieldValue, SECTION_FIELDS, SECTION_IDS, setFieldValue } from './calculate';
+import { FIELD_UNITS, type FieldUnit } from './content';
+import type { CalculatorInputs, SectionId } from './types';
+
+export const DEFAULT_SENSITIVITY_PERCENT = 20;
+
+export interface SensitivityEntry {
+  section: SectionId;
+  field: string;
+  lowValue: number;
+  highValue: number;
+  // Total impact with only this input moved down / up
+  lowTotal: number;
+  highTotal: number;
+  // Spread between the two totals; entries are ranked by this
+  swing: number;
+}
+
+export interface SensitivityAnalysis {
+  baseTotal: number;
+  entries: SensitivityEntry[];
+}
+
+// Percentages can't be pushed past 100%
+const clampToUnit = (value: number, unit: FieldUnit) => (unit === 'percent' ? Math.min(value, 100) : value);
+
+// Vary each input by ±percent on its own and rank inputs by how far they move the total
+export const analyzeSensitivity = (inputs: CalculatorInputs, percent: number): SensitivityAnalysis => {
+  const baseTotal = computeImpacts(inputs).total;
+  const factor = percent / 100;
+  const entries: SensitivityEntry[] = [];
+
+  for (const section of SECTION_IDS) {
+    for (const field of SECTION_FIELDS[section] as string[]) {
+      const value = Number(getFieldValue(inputs, section, field));
+      const unit = (FIELD_UNITS[section] as Record<string, FieldUnit>)[field];
+      const lowValue = clampToUnit(Math.max(0, value * (1 - factor)), unit);
+      const highValue = clampToUnit(value * (1 + factor), unit);
+
+      const lowTotal = computeImpacts(setFieldValue(inputs, section, field, lowValue)).total;
+      const highTotal = computeImpacts(setFieldValue(inputs, section, field, highValue)).total;
+      entries.push({ section, field, lowValue, highValue, lowTotal, highTotal, swing: Math.abs(highTotal - lowTotal) });
+    }
+  }
+
+  entries.sort((a, b) => b.swing - a.swing);
+  return { baseTotal, entries };
+};
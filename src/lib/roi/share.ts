@@ -0,0 +1,93 @@
+import { ASSUMPTION_FIELDS, setAssumption } from './assumptions';
+import { createEmptyInputs, SECTION_FIELDS, SECTION_IDS, sectionsBefore, setFieldValue } from './calculate';
+import { applyMoneyFormatToUrl, DEFAULT_MONEY_FORMAT, type MoneyFormat } from './currency';
+import { applyLanguageToUrl, DEFAULT_LANGUAGE, type Language } from './i18n';
+import type { CalculatorInputs, FieldValue, SectionId } from './types';
+
+// Query parameter that carries an encoded scenario
+export const SHARE_PARAM = 's';
+
+// Bump whenever the field list or its order changes, and keep a layout for the old version so its links still open
+const SHARE_VERSION = '5';
+const SEPARATOR = '_';
+
+interface ShareLayout {
+  sections: SectionId[];
+  assumptions: boolean;
+}
+
+// What each version of a link carries; sections added since then open empty
+const SHARE_LAYOUTS: Record<string, ShareLayout> = {
+  // Links from before the assumptions were configurable carry section fields only
+  '1': { sections: sectionsBefore('grantReporting'), assumptions: false },
+  '2': { sections: sectionsBefore('grantReporting'), assumptions: true },
+  '3': { sections: sectionsBefore('staffTurnover'), assumptions: true },
+  '4': { sections: sectionsBefore('pipelineConversion'), assumptions: true },
+  [SHARE_VERSION]: { sections: SECTION_IDS, assumptions: true },
+};
+
+// Every field in a fixed order, so the encoded string only has to carry values
+const fieldOrder = (sections: SectionId[]) =>
+  sections.flatMap((section) =>
+    (SECTION_FIELDS[section] as string[]).map((field) => [section, field] as const)
+  );
+
+const encodeValue = (value: FieldValue) => (value === '' ? '' : String(value));
+
+// Serialize inputs as "<version>_<value>_<value>..." with empty fields left blank,
+// section fields first and the assumptions last
+export const encodeInputs = (inputs: CalculatorInputs): string => {
+  const values = fieldOrder(SECTION_IDS).map(([section, field]) => encodeValue(inputs[section][field]));
+  const assumptions = ASSUMPTION_FIELDS.map((field) => encodeValue(inputs.assumptions[field]));
+  return [SHARE_VERSION, ...values, ...assumptions].join(SEPARATOR);
+};
+
+// Parse a string produced by encodeInputs; returns null if it is malformed or from another version
+export const decodeInputs = (encoded: string): CalculatorInputs | null => {
+  const [version, ...values] = encoded.split(SEPARATOR);
+  const layout = Object.prototype.hasOwnProperty.call(SHARE_LAYOUTS, version) ? SHARE_LAYOUTS[version] : null;
+  if (!layout) return null;
+  const fields = fieldOrder(layout.sections);
+  const assumptionCount = layout.assumptions ? ASSUMPTION_FIELDS.length : 0;
+  if (values.length !== fields.length + assumptionCount) return null;
+
+  const parse = (raw: string): FieldValue | null => {
+    if (raw === '') return '';
+    const value = Number(raw);
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  };
+
+  let inputs = createEmptyInputs();
+  for (let i = 0; i < fields.length; i++) {
+    const [section, field] = fields[i];
+    const value = parse(values[i]);
+    if (value === null) return null;
+    inputs = setFieldValue(inputs, section, field, value);
+  }
+  for (let i = 0; i < assumptionCount; i++) {
+    const value = parse(values[fields.length + i]);
+    if (value === null) return null;
+    inputs = setAssumption(inputs, ASSUMPTION_FIELDS[i], value);
+  }
+  return inputs;
+};
+
+// Read a shared scenario from a query string, if one is present and valid
+export const readInputsFromSearch = (search: string): CalculatorInputs | null => {
+  const encoded = new URLSearchParams(search).get(SHARE_PARAM);
+  return encoded ? decodeInputs(encoded) : null;
+};
+
+// Build a link to the given page that reopens the calculator with these inputs, in the same currency and language
+export const buildShareUrl = (
+  href: string,
+  inputs: CalculatorInputs,
+  format: MoneyFormat = DEFAULT_MONEY_FORMAT,
+  language: Language = DEFAULT_LANGUAGE
+): string => {
+  const url = new URL(href);
+  url.searchParams.set(SHARE_PARAM, encodeInputs(inputs));
+  applyMoneyFormatToUrl(url, format);
+  applyLanguageToUrl(url, language);
+  return url.toString();
+};
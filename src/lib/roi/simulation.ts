@@ -0,0 +1,182 @@
+import { computeImpacts, getFieldValue, SECTION_FIELDS, SECTION_IDS, setFieldValue } from './calculate';
+import { FIELD_UNITS, type FieldUnit } from './content';
+import type { CalculatorInputs, SectionId } from './types';
+
+export type Distribution = 'triangular' | 'pert';
+
+// Three-point estimate for one input
+export interface FieldRange {
+  low: number;
+  likely: number;
+  high: number;
+}
+
+// Ranges keyed by section then field; fields without one keep their point estimate
+export type InputRanges = Partial<Record<SectionId, Record<string, FieldRange>>>;
+
+export interface SimulationRequest {
+  inputs: CalculatorInputs;
+  ranges: InputRanges;
+  distribution: Distribution;
+  iterations: number;
+  // Fixed seed so the same scenario always produces the same figures
+  seed?: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  histogram: HistogramBin[];
+}
+
+export const DEFAULT_SIMULATION_ITERATIONS = 5000;
+export const DEFAULT_RANGE_SPREAD = 20;
+const HISTOGRAM_BINS = 20;
+// Percent fields can't be sampled above this, e.g. an upgrade rate over 100%
+const MAX_PERCENT = 100;
+
+// mulberry32: small, fast and good enough for sampling inputs
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const sampleTriangular = (random: () => number, { low, likely, high }: FieldRange): number => {
+  if (high <= low) return likely;
+  const u = random();
+  const split = (likely - low) / (high - low);
+  return u < split
+    ? low + Math.sqrt(u * (high - low) * (likely - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - likely));
+};
+
+// Standard normal via Box-Muller
+const sampleNormal = (random: () => number): number => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Marsaglia-Tsang; shapes used here are always >= 1
+const sampleGamma = (random: () => number, shape: number): number => {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+};
+
+// PERT weights the likely value more heavily than a triangle, giving thinner tails
+const samplePert = (random: () => number, { low, likely, high }: FieldRange): number => {
+  if (high <= low) return likely;
+  const alpha = 1 + (4 * (likely - low)) / (high - low);
+  const beta = 1 + (4 * (high - likely)) / (high - low);
+  const x = sampleGamma(random, alpha);
+  const y = sampleGamma(random, beta);
+  return low + (x / (x + y)) * (high - low);
+};
+
+const percentile = (sorted: number[], q: number) => sorted[Math.floor(q * (sorted.length - 1))];
+
+// Ranges of ±spread% around each filled-in point estimate, as a starting point for the user
+export const createDefaultRanges = (inputs: CalculatorInputs, spread = DEFAULT_RANGE_SPREAD): InputRanges => {
+  const ranges: InputRanges = {};
+  for (const section of SECTION_IDS) {
+    ranges[section] = {};
+    for (const field of SECTION_FIELDS[section] as string[]) {
+      const likely = Number(getFieldValue(inputs, section, field));
+      const unit = (FIELD_UNITS[section] as Record<string, FieldUnit>)[field];
+      const high = likely * (1 + spread / 100);
+      ranges[section][field] = {
+        low: likely * (1 - spread / 100),
+        likely,
+        high: unit === 'percent' ? Math.min(high, MAX_PERCENT) : high,
+      };
+    }
+  }
+  return ranges;
+};
+
+// Ordered low to high, and within 100% for percent fields
+export const isValidRange = ({ low, likely, high }: FieldRange, unit?: FieldUnit): boolean =>
+  low >= 0 && low <= likely && likely <= high && (unit !== 'percent' || high <= MAX_PERCENT);
+
+export const runSimulation = ({ inputs, ranges, distribution, iterations, seed = 1 }: SimulationRequest): SimulationResult => {
+  const random = createRandom(seed);
+  const sample = distribution === 'pert' ? samplePert : sampleTriangular;
+  const rangedFields = SECTION_IDS.flatMap((section) =>
+    Object.entries(ranges[section] ?? {}).map(([field, range]) => ({ section, field, range }))
+  );
+
+  const totals: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    let trial = inputs;
+    for (const { section, field, range } of rangedFields) {
+      trial = setFieldValue(trial, section, field, sample(random, range));
+    }
+    totals.push(computeImpacts(trial).total);
+  }
+  totals.sort((a, b) => a - b);
+
+  const min = totals[0] ?? 0;
+  const max = totals[totals.length - 1] ?? 0;
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  const histogram: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, bin) => ({
+    start: min + bin * width,
+    end: min + (bin + 1) * width,
+    count: 0,
+  }));
+  for (const total of totals) {
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((total - min) / width))].count++;
+  }
+
+  return {
+    iterations,
+    mean: totals.reduce((sum, total) => sum + total, 0) / (totals.length || 1),
+    p10: percentile(totals, 0.1) ?? 0,
+    p50: percentile(totals, 0.5) ?? 0,
+    p90: percentile(totals, 0.9) ?? 0,
+    histogram,
+  };
+};
+
+// Run in a Web Worker where available, otherwise on the current thread (e.g. in Node scripts)
+export const runSimulationAsync = (request: SimulationRequest): Promise<SimulationResult> => {
+  if (typeof Worker === 'undefined') return Promise.resolve(runSimulation(request));
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SimulationResult>) => {
+      resolve(event.data);
+      worker.terminate();
+    };
+    worker.onerror = (event) => {
+      reject(new Error(event.message));
+      worker.terminate();
+    };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,8 @@
+import { runSimulation, type SimulationRequest } from './simulation';
+
+// Runs simulations off the main thread so the form stays responsive
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  worker.postMessage(runSimulation(event.data));
+};
@@ -0,0 +1,194 @@
+import { ASSUMPTION_FIELDS, DEFAULT_ASSUMPTIONS } from './assumptions';
+import { SECTION_IDS } from './calculate';
+import { DEFAULT_MONEY_FORMAT, getCurrency, isCurrencyCode, isSupportedLocale, type MoneyFormat } from './currency';
+import { decodeInputs, encodeInputs } from './share';
+import type { LeadCaptureAdapter, LeadSubmission } from './leads';
+import type { SavedScenario } from './scenarios';
+import type { CalculatorInputs, SectionId } from './types';
+
+const DRAFT_STORAGE_KEY = 'instil-roi-wizard:draft';
+const SCENARIOS_STORAGE_KEY = 'instil-roi-wizard:scenarios';
+const LEADS_STORAGE_KEY = 'instil-roi-wizard:leads';
+const LEAD_UNLOCKED_STORAGE_KEY = 'instil-roi-wizard:lead-unlocked';
+
+// An in-progress session saved between visits
+export interface CalculatorDraft {
+  inputs: CalculatorInputs;
+  activeTab: SectionId;
+  savedAt: number;
+}
+
+interface StoredDraft {
+  values: string;
+  activeTab: string;
+  savedAt: number;
+}
+
+// Assumptions start out at their defaults, so only ones the user has changed count;
+// those are worth resuming even before any section has been filled in
+const hasAnyValue = (inputs: CalculatorInputs): boolean =>
+  SECTION_IDS.some((section) => Object.values(inputs[section]).some((value) => value !== '')) ||
+  ASSUMPTION_FIELDS.some((field) => {
+    const value = inputs.assumptions[field];
+    return value !== '' && value !== DEFAULT_ASSUMPTIONS[field];
+  });
+
+// localStorage can be unavailable (private browsing, sandboxed iframes), so every access is guarded
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window === 'undefined' ? null : window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+// Save the session, or drop the saved one if there is nothing worth resuming
+export const saveDraft = (inputs: CalculatorInputs, activeTab: SectionId): void => {
+  const storage = getStorage();
+  if (!storage) return;
+
+  if (!hasAnyValue(inputs)) {
+    clearDraft();
+    return;
+  }
+
+  // Values reuse the share-link encoding so a version change invalidates old drafts too
+  const stored: StoredDraft = { values: encodeInputs(inputs), activeTab, savedAt: Date.now() };
+  try {
+    storage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Quota exceeded or storage disabled; persistence is best effort
+  }
+};
+
+// Load the saved session, ignoring anything unreadable or from an older version
+export const loadDraft = (): CalculatorDraft | null => {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  try {
+    const raw = storage.getItem(DRAFT_STORAGE_KEY);
+    if (!raw) return null;
+
+    const stored = JSON.parse(raw) as Partial<StoredDraft>;
+    const inputs = typeof stored.values === 'string' ? decodeInputs(stored.values) : null;
+    if (!inputs || !hasAnyValue(inputs)) return null;
+
+    const activeTab = SECTION_IDS.includes(stored.activeTab as SectionId)
+      ? (stored.activeTab as SectionId)
+      : SECTION_IDS[0];
+    return { inputs, activeTab, savedAt: Number(stored.savedAt) || 0 };
+  } catch {
+    return null;
+  }
+};
+
+export const clearDraft = (): void => {
+  try {
+    getStorage()?.removeItem(DRAFT_STORAGE_KEY);
+  } catch {
+    // Nothing to clear if storage is unavailable
+  }
+};
+
+interface StoredScenario {
+  id: string;
+  name: string;
+  values: string;
+  currency: string;
+  locale: string;
+  savedAt: number;
+}
+
+// Scenarios saved before currencies were recorded were entered in the default currency
+const toScenarioFormat = (currency: unknown, locale: unknown): MoneyFormat => {
+  if (!isCurrencyCode(currency)) return DEFAULT_MONEY_FORMAT;
+  return { currency, locale: isSupportedLocale(locale) ? locale : getCurrency(currency).defaultLocale };
+};
+
+export const saveScenarios = (scenarios: SavedScenario[]): void => {
+  const storage = getStorage();
+  if (!storage) return;
+
+  const stored: StoredScenario[] = scenarios.map(({ id, name, inputs, format, savedAt }) => ({
+    id,
+    name,
+    values: encodeInputs(inputs),
+    currency: format.currency,
+    locale: format.locale,
+    savedAt,
+  }));
+  try {
+    storage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Persistence is best effort; the scenarios still live for this session
+  }
+};
+
+// Load saved scenarios, skipping any that can no longer be decoded
+export const loadScenarios = (): SavedScenario[] => {
+  const storage = getStorage();
+  if (!storage) return [];
+
+  try {
+    const stored = JSON.parse(storage.getItem(SCENARIOS_STORAGE_KEY) ?? '[]') as Partial<StoredScenario>[];
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap((scenario) => {
+      const inputs = typeof scenario.values === 'string' ? decodeInputs(scenario.values) : null;
+      if (!inputs || typeof scenario.id !== 'string' || typeof scenario.name !== 'string') return [];
+      return [{
+        id: scenario.id,
+        name: scenario.name,
+        inputs,
+        format: toScenarioFormat(scenario.currency, scenario.locale),
+        savedAt: Number(scenario.savedAt) || 0,
+      }];
+    });
+  } catch {
+    return [];
+  }
+};
+
+// Leads kept by the local adapter, oldest first
+export const loadLeads = (): LeadSubmission[] => {
+  const storage = getStorage();
+  if (!storage) return [];
+
+  try {
+    const stored = JSON.parse(storage.getItem(LEADS_STORAGE_KEY) ?? '[]') as LeadSubmission[];
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Keeps leads in this browser instead of sending them anywhere, for demos and testing the gate
+export const createLocalLeadAdapter = (): LeadCaptureAdapter => ({
+  submit: async (submission) => {
+    const storage = getStorage();
+    if (!storage) return;
+    try {
+      storage.setItem(LEADS_STORAGE_KEY, JSON.stringify([...loadLeads(), submission]));
+    } catch {
+      // Best effort, like the rest of local persistence; the visitor still gets their results
+    }
+  },
+});
+
+// Someone who has already filled in the lead form isn't asked again on later visits
+export const hasUnlockedResults = (): boolean => {
+  try {
+    return getStorage()?.getItem(LEAD_UNLOCKED_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const markResultsUnlocked = (): void => {
+  try {
+    getStorage()?.setItem(LEAD_UNLOCKED_STORAGE_KEY, 'true');
+  } catch {
+    // Without storage the gate simply shows again next visit
+  }
+};
@@ -0,0 +1,86 @@
+// A numeric input as held by the calculator form: '' while the field is still empty
+export type FieldValue = number | '';
+
+export interface AdminWasteInputs {
+  annualSalary: FieldValue;
+  hoursPerWeek: FieldValue;
+  numberOfMGOs: FieldValue;
+}
+
+export interface SiloedCollaborationInputs {
+  annualSalary: FieldValue;
+  hoursWasted: FieldValue;
+  numberOfUsers: FieldValue;
+}
+
+export interface GrantReportingInputs {
+  activeGrants: FieldValue;
+  reportsPerGrant: FieldValue;
+  hoursPerReport: FieldValue;
+  annualSalary: FieldValue;
+}
+
+export interface MissedUpgradesInputs {
+  upgradableDonors: FieldValue;
+  averageGiftSize: FieldValue;
+  upgradePercentage: FieldValue;
+  realizationRate: FieldValue;
+}
+
+export interface DonorLapseInputs {
+  lapsedDonors: FieldValue;
+  averageGift: FieldValue;
+  numberOfPortfolios: FieldValue;
+}
+
+export interface StaffTurnoverInputs {
+  numberOfMGOs: FieldValue;
+  turnoverRate: FieldValue;
+  recruitingCost: FieldValue;
+  monthsToRamp: FieldValue;
+  portfolioRevenue: FieldValue;
+}
+
+export interface PipelineConversionInputs {
+  ratedProspects: FieldValue;
+  firstGiftAverage: FieldValue;
+  qualificationImprovement: FieldValue;
+  closeRate: FieldValue;
+}
+
+// Working-time and cost assumptions behind the salary-based sections; empty fields fall back to the defaults
+export interface AssumptionInputs {
+  annualHours: FieldValue;
+  weeksPerYear: FieldValue;
+  // Benefits and overhead on top of salary, as a percentage (fully loaded cost = salary × (1 + load))
+  overheadLoad: FieldValue;
+}
+
+// Every input the calculator collects, grouped by section, plus the assumptions they are valued with
+export interface CalculatorInputs {
+  adminWaste: AdminWasteInputs;
+  siloedCollaboration: SiloedCollaborationInputs;
+  grantReporting: GrantReportingInputs;
+  missedUpgrades: MissedUpgradesInputs;
+  donorLapse: DonorLapseInputs;
+  staffTurnover: StaffTurnoverInputs;
+  pipelineConversion: PipelineConversionInputs;
+  assumptions: AssumptionInputs;
+}
+
+export type SectionId = Exclude<keyof CalculatorInputs, 'assumptions'>;
+
+export type AssumptionField = keyof AssumptionInputs;
+
+// Assumptions with defaults filled in, as used by the formulas
+export type ResolvedAssumptions = Record<AssumptionField, number>;
+
+export type ImpactCategory = 'wastedSalarySpend' | 'opportunityCost';
+
+// Result of running every formula against a set of inputs
+export interface ImpactBreakdown {
+  sections: Record<SectionId, number>;
+  wastedSalarySpend: number;
+  opportunityCost: number;
+  total: number;
+}
@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { DEFAULT_ASSUMPTIONS, resolveAssumptions } from './assumptions';
+import { areAllSectionsComplete, getFieldValue, isSectionComplete, SECTION_FIELDS, SECTION_IDS } from './calculate';
+import { formatMessage, type Messages } from './i18n';
+import { en } from './messages/en';
+import { SECTION_DEFINITIONS, type AnySectionDefinition, type SectionField } from './sections';
+import type { CalculatorInputs, SectionId } from './types';
+
+// Field name -> message, for every field that fails validation
+export type SectionErrors = Partial<Record<string, string>>;
+export type ValidationErrors = Partial<Record<keyof CalculatorInputs, SectionErrors>>;
+
+// How far along a section is: nothing entered, some fields entered, all entered, or something entered is wrong
+export type SectionStatus = 'empty' | 'partial' | 'complete' | 'invalid';
+
+// Empty form fields arrive as '' and are reported as missing rather than as the wrong type
+const required = (schema: z.ZodNumber) =>
+  z.preprocess((value) => (value === '' ? undefined : value), schema);
+
+// Fields that may be left empty, e.g. assumptions that fall back to the defaults
+export const optionalNumber = (schema: z.ZodNumber) =>
+  z.preprocess((value) => (value === '' ? undefined : value), schema.optional());
+
+// Field rules worded in the given language
+const createRules = (messages: Messages) => {
+  const m = messages.validation;
+  const formatLimit = (value: number) => new Intl.NumberFormat(messages.locale, { maximumFractionDigits: 1 }).format(value);
+  const atMost = (max: number) => formatMessage(m.atMost, { max: formatLimit(max) });
+
+  const number = () => z.number({ required_error: m.required, invalid_type_error: m.invalidNumber });
+
+  return {
+    number,
+    count: (min: number) =>
+      required(number().int(m.wholeNumber).min(min, formatMessage(m.atLeast, { min })).max(1_000_000, atMost(1_000_000))),
+    money: () => required(number().positive(m.positive).max(100_000_000, atMost(100_000_000))),
+    hoursPerWeek: () => required(number().min(0, m.notNegative).max(168, m.maxWeekHours)),
+    percentage: (max = 100) => number().min(0, m.notNegative).max(max, formatMessage(m.maxPercent, { max })),
+    nonNegative: (max: number) => number().min(0, m.notNegative).max(max, atMost(max)),
+
+    // Hours are valued at salary / annual hours, so time beyond the paid working week would be overcounted
+    withinWorkingWeek: (workingHours: number) => (hours: unknown, ctx: z.RefinementCtx, path: string) => {
+      if (typeof hours === 'number' && hours <= 168 && hours > workingHours) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [path],
+          message: formatMessage(m.workingWeek, { hours: formatLimit(workingHours) }),
+        });
+      }
+    },
+  };
+};
+
+export const createAssumptionsSchema = (messages: Messages = en) => {
+  const { number, percentage } = createRules(messages);
+  const m = messages.validation;
+  return z.object({
+    annualHours: optionalNumber(number().positive(m.positive).max(8760, m.maxYearHours)),
+    weeksPerYear: optionalNumber(number().positive(m.positive).max(52, m.maxYearWeeks)),
+    overheadLoad: optionalNumber(percentage(200)),
+  });
+};
+
+// Section rules for a given length of working week, in hours, built from each field's type
+export const createSectionSchemas = (workingHoursPerWeek: number, messages: Messages = en) => {
+  const { count, money, hoursPerWeek, percentage, nonNegative, withinWorkingWeek } = createRules(messages);
+  const withinWeek = withinWorkingWeek(workingHoursPerWeek);
+
+  const fieldRule = (field: SectionField) => {
+    switch (field.type) {
+      case 'count':
+        return count(field.min ?? 1);
+      case 'amount':
+        return required(nonNegative(1_000_000));
+      case 'money':
+        return money();
+      case 'weeklyHours':
+        return hoursPerWeek();
+      case 'hours':
+        return required(nonNegative(8760));
+      case 'percentage':
+        return required(percentage());
+    }
+  };
+
+  // Field rules and cross-field checks are parsed side by side, so a field that is still
+  // missing elsewhere in the section doesn't hide a cross-field problem
+  const sectionSchema = (section: AnySectionDefinition) => {
+    const fields: SectionField[] = section.fields;
+    return z.intersection(
+      z.object(Object.fromEntries(fields.map((field) => [field.id, fieldRule(field)]))),
+      z.record(z.unknown()).superRefine((values, ctx) => {
+        for (const field of fields) {
+          if (field.type === 'weeklyHours') withinWeek(values[field.id], ctx, field.id);
+        }
+      })
+    );
+  };
+
+  return Object.fromEntries(
+    SECTION_IDS.map((id) => [id, sectionSchema(SECTION_DEFINITIONS[id])])
+  ) as Record<SectionId, z.ZodTypeAny>;
+};
+
+// Length of the paid working week implied by the assumptions, falling back to the defaults
+// while the assumptions themselves are invalid
+const workingHoursPerWeek = (inputs: CalculatorInputs): number => {
+  const assumptions = createAssumptionsSchema().safeParse(inputs.assumptions).success
+    ? resolveAssumptions(inputs.assumptions)
+    : DEFAULT_ASSUMPTIONS;
+  return assumptions.annualHours / assumptions.weeksPerYear;
+};
+
+// First message reported for each failing field
+export const toSectionErrors = (error: z.ZodError): SectionErrors => {
+  const errors: SectionErrors = {};
+  for (const issue of error.issues) {
+    const field = String(issue.path[0]);
+    errors[field] ??= issue.message;
+  }
+  return errors;
+};
+
+// Messages default to English; pass a language's messages to show them to the user
+export const validateSection = (inputs: CalculatorInputs, section: SectionId, messages: Messages = en): SectionErrors => {
+  const result = createSectionSchemas(workingHoursPerWeek(inputs), messages)[section].safeParse(inputs[section]);
+  return result.success ? {} : toSectionErrors(result.error);
+};
+
+export const validateAssumptions = (inputs: CalculatorInputs, messages: Messages = en): SectionErrors => {
+  const result = createAssumptionsSchema(messages).safeParse(inputs.assumptions);
+  return result.success ? {} : toSectionErrors(result.error);
+};
+
+export const validateInputs = (inputs: CalculatorInputs, messages: Messages = en): ValidationErrors => {
+  const errors: ValidationErrors = {};
+  const assumptionErrors = validateAssumptions(inputs, messages);
+  if (Object.keys(assumptionErrors).length > 0) errors.assumptions = assumptionErrors;
+  for (const section of SECTION_IDS) {
+    const sectionErrors = validateSection(inputs, section, messages);
+    if (Object.keys(sectionErrors).length > 0) errors[section] = sectionErrors;
+  }
+  return errors;
+};
+
+export const hasValidationErrors = (errors: ValidationErrors): boolean => Object.keys(errors).length > 0;
+
+// Record or clear one field's error, keeping the same object when nothing changes
+export const setFieldError = (
+  errors: ValidationErrors,
+  section: keyof CalculatorInputs,
+  field: string,
+  error: string | null
+): ValidationErrors => {
+  if ((errors[section]?.[field] ?? null) === error) return errors;
+  const sectionErrors: SectionErrors = { ...errors[section] };
+  if (error) sectionErrors[field] = error;
+  else delete sectionErrors[field];
+  const next: ValidationErrors = { ...errors, [section]: sectionErrors };
+  if (Object.keys(sectionErrors).length === 0) delete next[section];
+  return next;
+};
+
+// Empty fields don't make a section invalid, they only leave it unfinished. Text an input
+// couldn't read as a number leaves its field empty, so those errors are passed in separately.
+export const getSectionStatus = (
+  inputs: CalculatorInputs,
+  section: SectionId,
+  errors: ValidationErrors = validateInputs(inputs),
+  inputErrors: ValidationErrors = {}
+): SectionStatus => {
+  const fields = SECTION_FIELDS[section] as string[];
+  const entered = fields.filter((field) => getFieldValue(inputs, section, field) !== '');
+  if (entered.some((field) => errors[section]?.[field])) return 'invalid';
+  if (fields.some((field) => inputErrors[section]?.[field])) return 'invalid';
+  if (entered.length === 0) return 'empty';
+  return entered.length === fields.length ? 'complete' : 'partial';
+};
+
+// Sections filled in with valid values, which live results can count before the rest are done.
+// None count while the assumptions are invalid, since the salary-based sections depend on them.
+export const getReadySections = (inputs: CalculatorInputs): SectionId[] => {
+  const errors = validateInputs(inputs);
+  if (errors.assumptions) return [];
+  return SECTION_IDS.filter((section) => isSectionComplete(inputs, section) && !errors[section]);
+};
+
+// Every field filled in with a valid value, so results can be shown
+export const canCalculate = (inputs: CalculatorInputs): boolean =>
+  areAllSectionsComplete(inputs) && !hasValidationErrors(validateInputs(inputs));
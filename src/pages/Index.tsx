@@ -1,14 +1,31 @@
 
 import ROICalculator from "@/components/ROICalculator";
+import {
+  createLocalLeadAdapter,
+  readInputsFromSearch,
+  readLanguageFromSearch,
+  readLeadGateFromSearch,
+  readMoneyFormatFromSearch,
+} from "@/lib/roi";
 
 const Index = () => {
   // Check if we're in an embedded context using URL parameters
   const urlParams = new URLSearchParams(window.location.search);
   const isEmbedded = urlParams.get('embedded') === 'true';
+  const sharedInputs = readInputsFromSearch(window.location.search);
+  const moneyFormat = readMoneyFormatFromSearch(window.location.search);
+  const language = readLanguageFromSearch(window.location.search);
+  // Leads stay in this browser until a real adapter, e.g. for the CRM, is passed in instead
+  const leadCaptureAdapter = readLeadGateFromSearch(window.location.search) ? createLocalLeadAdapter() : null;
 
   return (
     <div className={`min-h-screen bg-instil-dark ${isEmbedded ? 'bg-transparent p-0' : ''}`}>
-      <ROICalculator />
+      <ROICalculator
+        initialInputs={sharedInputs}
+        initialMoneyFormat={moneyFormat}
+        initialLanguage={language}
+        leadCaptureAdapter={leadCaptureAdapter}
+      />
     </div>
   );
 };